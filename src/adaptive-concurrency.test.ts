@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { AdaptiveConcurrencyController } from './adaptive-concurrency';
+
+describe('AdaptiveConcurrencyController', () => {
+  it('窗口收集满之前不应调整', () => {
+    const controller = new AdaptiveConcurrencyController({ max: 10, windowSize: 3 });
+
+    expect(controller.record(10, true, 2)).toBeNull();
+    expect(controller.record(10, true, 2)).toBeNull();
+    expect(controller.record(10, true, 2)).toBe(3);
+  });
+
+  it('耗时超过目标时应乘性减少', () => {
+    const controller = new AdaptiveConcurrencyController({ max: 10, targetLatencyMs: 50, windowSize: 2 });
+
+    controller.record(40, true, 8);
+    expect(controller.record(80, true, 8)).toBe(4);
+  });
+
+  it('错误率超过上限时应乘性减少，且不低于 min', () => {
+    const controller = new AdaptiveConcurrencyController({ min: 3, max: 10, maxErrorRate: 0.2, windowSize: 4 });
+
+    controller.record(1, true, 4);
+    controller.record(1, true, 4);
+    controller.record(1, false, 4);
+    expect(controller.record(1, true, 4)).toBe(3);
+  });
+
+  it('已经达到上限时不应调整', () => {
+    const controller = new AdaptiveConcurrencyController({ max: 4, windowSize: 1 });
+
+    expect(controller.record(1, true, 4)).toBeNull();
+    expect(controller.clamp(20)).toBe(4);
+    expect(controller.clamp(0)).toBe(1);
+  });
+});
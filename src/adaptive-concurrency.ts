@@ -0,0 +1,142 @@
+/**
+ * 自适应并发控制的配置。
+ */
+export interface AdaptiveConcurrencyOptions {
+    /**
+     * 并发数的下限。
+     * @default 1
+     */
+    min?: number;
+    /** 并发数的上限 */
+    max: number;
+    /**
+     * 目标平均消费耗时（毫秒），超过时降低并发数。未设置时只按错误率调整。
+     */
+    targetLatencyMs?: number;
+    /**
+     * 允许的最大错误率（0~1），超过时降低并发数。
+     * @default 0.1
+     */
+    maxErrorRate?: number;
+    /**
+     * 每收集多少次消费结果做一次调整。
+     * @default 20
+     */
+    windowSize?: number;
+    /**
+     * 加性增加的步长。
+     * @default 1
+     */
+    increaseStep?: number;
+    /**
+     * 乘性减少的因子（0~1）。
+     * @default 0.5
+     */
+    decreaseFactor?: number;
+}
+
+/**
+ * 基于 AIMD（加性增、乘性减）的并发控制器。
+ * 每收集 `windowSize` 次消费结果评估一次：平均耗时超过目标或错误率超过上限时将并发数乘以 `decreaseFactor`，
+ * 否则加上 `increaseStep`，结果限制在 `[min, max]` 之间。
+ *
+ * @example
+ * ```typescript
+ * const controller = new AdaptiveConcurrencyController({ max: 16, targetLatencyMs: 200 });
+ * const next = controller.record(latencyMs, ok, currentConcurrency);
+ * if (next !== null) {
+ *   // 调整并发数为 next
+ * }
+ * ```
+ */
+export class AdaptiveConcurrencyController {
+    /**
+     * @private
+     * 生效的配置
+     */
+    private options: Required<Omit<AdaptiveConcurrencyOptions, 'targetLatencyMs'>> & { targetLatencyMs?: number };
+    /**
+     * @private
+     * 当前窗口内的样本数
+     */
+    private samples: number = 0;
+    /**
+     * @private
+     * 当前窗口内的失败次数
+     */
+    private failures: number = 0;
+    /**
+     * @private
+     * 当前窗口内的耗时总和（毫秒）
+     */
+    private totalLatencyMs: number = 0;
+
+    /**
+     * 创建一个控制器。
+     * @param {AdaptiveConcurrencyOptions} options - 控制参数。
+     */
+    constructor(options: AdaptiveConcurrencyOptions) {
+        const {
+            min = 1,
+            max,
+            targetLatencyMs,
+            maxErrorRate = 0.1,
+            windowSize = 20,
+            increaseStep = 1,
+            decreaseFactor = 0.5
+        } = options;
+
+        this.options = {
+            min: Math.max(1, min),
+            max: Math.max(1, min, max),
+            targetLatencyMs,
+            maxErrorRate,
+            windowSize: Math.max(1, windowSize),
+            increaseStep,
+            decreaseFactor
+        };
+    }
+
+    /**
+     * 将并发数限制在 `[min, max]` 之间。
+     * @param {number} concurrency - 并发数。
+     * @returns {number} 限制后的并发数。
+     */
+    clamp(concurrency: number): number {
+        return Math.min(this.options.max, Math.max(this.options.min, concurrency));
+    }
+
+    /**
+     * 记录一次消费结果，窗口收集满时给出新的并发数。
+     * @param {number} latencyMs - 本次消费的耗时（毫秒）。
+     * @param {boolean} ok - 本次消费是否成功。
+     * @param {number} current - 当前的并发数。
+     * @returns {number | null} 需要调整时返回新的并发数，否则返回 `null`。
+     */
+    record(latencyMs: number, ok: boolean, current: number): number | null {
+        this.samples++;
+        this.totalLatencyMs += latencyMs;
+        if (!ok) {
+            this.failures++;
+        }
+
+        if (this.samples < this.options.windowSize) {
+            return null;
+        }
+
+        const { targetLatencyMs, maxErrorRate, increaseStep, decreaseFactor } = this.options;
+        const errorRate = this.failures / this.samples;
+        const averageLatencyMs = this.totalLatencyMs / this.samples;
+        this.samples = 0;
+        this.failures = 0;
+        this.totalLatencyMs = 0;
+
+        const overloaded = errorRate > maxErrorRate
+            || (targetLatencyMs !== undefined && averageLatencyMs > targetLatencyMs);
+        const next = this.clamp(overloaded
+            ? Math.floor(current * decreaseFactor)
+            : current + increaseStep);
+
+        return next !== current ? next : null;
+    }
+}
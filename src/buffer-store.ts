@@ -0,0 +1,86 @@
+/**
+ * 存储中的一条记录，对应一个已放入缓冲区但尚未确认的数据项。
+ * @template TItem - 数据项类型
+ */
+export interface StoredItem<TItem = any> {
+    /** 记录的唯一编号，由队列分配并单调递增 */
+    id: number;
+    /** 数据项 */
+    item: TItem;
+    /** 优先级 */
+    priority: number;
+    /** 同一优先级内的排序键 */
+    orderKey?: number;
+    /** 单个数据项的消费超时（毫秒） */
+    timeoutMs?: number;
+    /** 分区键 */
+    partitionKey?: string;
+    /**
+     * 在同一分区缓冲区中的数据项里的位置（从 0 开始）。只出现在快照中，
+     * 用于还原时恢复分区内的先后顺序，该顺序可能与按优先级排列的出队顺序不同。
+     */
+    partitionIndex?: number;
+    /** 延迟数据项最早可以开始消费的时间戳 */
+    runAt?: number;
+    /** 数据项上下文中的键值对，见 `ItemContext.values` */
+    context?: Record<string, unknown>;
+}
+
+/**
+ * 缓冲区的持久化存储。
+ * 数据项放入缓冲区时被追加，被成功消费后被确认；最终失败的数据项在离开死信队列
+ * （被 `drainDeadLetters` 取出、`requeueDeadLetters` 重新入队或超出 `maxDeadLetters` 被丢弃）之后才被确认。
+ * 队列创建时会重放所有尚未确认的记录，从而在进程崩溃后恢复缓冲区；死信队列本身只在内存中，其中的数据项会作为普通数据项重放。
+ * 所有方法都是同步的，以保证记录在 `produce` 解析之前已经写入。
+ * @template TItem - 数据项类型
+ */
+export interface BufferStore<TItem = any> {
+    /**
+     * 读取所有尚未确认的记录，按追加顺序排列。队列创建时调用一次。
+     * @returns {StoredItem<TItem>[]} 尚未确认的记录。
+     */
+    load(): StoredItem<TItem>[];
+    /**
+     * 追加一条记录。编号已存在时覆盖之前的记录（数据项被去重替换或合并时）。
+     * @param {StoredItem<TItem>} record - 新放入缓冲区的数据项。
+     */
+    append(record: StoredItem<TItem>): void;
+    /**
+     * 确认一条记录，之后不会再被重放。
+     * @param {number} id - 记录编号。
+     */
+    ack(id: number): void;
+    /**
+     * 确认所有记录。
+     */
+    clear(): void;
+}
+
+/**
+ * 默认的内存存储，不提供跨进程的持久化。
+ * 同一个实例可以交给新的队列，以恢复之前的队列被销毁时尚未确认的数据项。
+ * @template TItem - 数据项类型
+ */
+export class MemoryBufferStore<TItem = any> implements BufferStore<TItem> {
+    /**
+     * @private
+     * 以编号为键的未确认记录，Map 保持追加顺序
+     */
+    private records: Map<number, StoredItem<TItem>> = new Map();
+
+    load(): StoredItem<TItem>[] {
+        return Array.from(this.records.values());
+    }
+
+    append(record: StoredItem<TItem>): void {
+        this.records.set(record.id, record);
+    }
+
+    ack(id: number): void {
+        this.records.delete(id);
+    }
+
+    clear(): void {
+        this.records.clear();
+    }
+}
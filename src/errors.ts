@@ -0,0 +1,126 @@
+/**
+ * ProdConsPQueue 自身产生的所有错误的基类，可用于 `instanceof` 统一判断。
+ */
+export class ProdConsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProdConsError';
+    }
+}
+
+/**
+ * 实例已被销毁（或在等待期间被销毁）时抛出的错误。
+ */
+export class QueueDestroyedError extends ProdConsError {
+    constructor(message: string = 'ProdConsPQueue has been destroyed') {
+        super(message);
+        this.name = 'QueueDestroyedError';
+    }
+}
+
+/**
+ * 队列已关闭（或正在关闭）时，生产相关操作抛出的错误。
+ * 等待槽位的生产者在 `close()` 时也会以该错误被拒绝。
+ */
+export class QueueClosedError extends ProdConsError {
+    constructor(message: string = 'ProdConsPQueue has been closed') {
+        super(message);
+        this.name = 'QueueClosedError';
+    }
+}
+
+/**
+ * `clear()` 丢弃缓冲区中的数据项、中止正在消费的数据项时使用的错误，
+ * 这些数据项的 `produceTracked` 句柄的 `result` 以该错误拒绝，消费函数的 `AbortSignal` 以它为 `reason`。
+ */
+export class QueueClearedError extends ProdConsError {
+    constructor(message: string = 'ProdConsPQueue has been cleared') {
+        super(message);
+        this.name = 'QueueClearedError';
+    }
+}
+
+/**
+ * 数据项在开始消费之前通过 `produceTracked` 句柄的 `cancel()` 被取消时，句柄的 `result` 以该错误拒绝。
+ */
+export class QueueCancelledError extends ProdConsError {
+    constructor(message: string = 'Item was cancelled before consumption') {
+        super(message);
+        this.name = 'QueueCancelledError';
+    }
+}
+
+/**
+ * 操作超时时抛出的错误，包括单次消费超时和 `waitForEmpty`/`waitForConsumption` 的等待超时。
+ */
+export class QueueTimeoutError extends ProdConsError {
+    /** 生效的超时时长（毫秒） */
+    readonly timeoutMs: number;
+
+    constructor(message: string, timeoutMs: number) {
+        super(message);
+        this.name = 'QueueTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * 缓冲区已满、数据项无法放入时抛出的错误。
+ */
+export class QueueOverflowError extends ProdConsError {
+    constructor(message: string = 'ProdConsPQueue is full') {
+        super(message);
+        this.name = 'QueueOverflowError';
+    }
+}
+
+/**
+ * 数据项的去重键在最近消费结束的窗口（`dedupeTtlMs`）内、被跳过时，`produceTracked` 句柄的 `result` 以该错误拒绝。
+ */
+export class QueueDuplicateError extends ProdConsError {
+    constructor(message: string = 'Item was skipped as a duplicate of a recently consumed item') {
+        super(message);
+        this.name = 'QueueDuplicateError';
+    }
+}
+
+/**
+ * 批量消费函数返回的结果数量与这一批的数据项数量不一致时的错误。
+ * 视为这一批的一次失败，按重试策略处理。
+ */
+export class BatchOutcomeError extends ProdConsError {
+    /** 这一批的数据项数量 */
+    readonly expected: number;
+    /** 消费函数返回的结果数量 */
+    readonly received: number;
+
+    constructor(expected: number, received: number) {
+        super(`Batch consumer returned ${received} outcomes for ${expected} items`);
+        this.name = 'BatchOutcomeError';
+        this.expected = expected;
+        this.received = received;
+    }
+}
+
+/**
+ * 数据项耗尽重试次数、最终消费失败时的错误，携带数据项和原始错误。
+ * 作为 'error' 事件的 `error` 字段提供；`produceTracked` 的 `result` 和死信记录仍使用原始错误。
+ * @template TItem - 数据项类型
+ */
+export class ConsumerError<TItem = any> extends ProdConsError {
+    /** 消费失败的数据项 */
+    readonly item: TItem;
+    /** 总共尝试的次数 */
+    readonly attempts: number;
+    /** 最后一次失败的原始错误 */
+    readonly cause: unknown;
+
+    constructor(item: TItem, attempts: number, cause: unknown) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(`Consumer failed after ${attempts} attempt(s): ${reason}`);
+        this.name = 'ConsumerError';
+        this.item = item;
+        this.attempts = attempts;
+        this.cause = cause;
+    }
+}
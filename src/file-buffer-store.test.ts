@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import ProdConsPQueue from './index';
+import { FileBufferStore } from './file-buffer-store';
+
+describe('FileBufferStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'prod-cons-pqueue-'));
+    path = join(dir, 'nested', 'queue.log');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lineCount = () => readFileSync(path, 'utf8').split('\n').filter(Boolean).length;
+
+  it('应重放未确认的记录，并在读取后压缩日志', () => {
+    const store = new FileBufferStore<string>(path);
+    expect(store.load()).toEqual([]);
+    store.append({ id: 1, item: 'a', priority: 0 });
+    store.append({ id: 2, item: 'b', priority: 5, timeoutMs: 100 });
+    store.append({ id: 3, item: 'c', priority: 0 });
+    store.ack(1);
+    expect(lineCount()).toBe(4);
+
+    const reopened = new FileBufferStore<string>(path);
+    expect(reopened.load()).toEqual([
+      { id: 2, item: 'b', priority: 5, timeoutMs: 100 },
+      { id: 3, item: 'c', priority: 0 }
+    ]);
+    expect(lineCount()).toBe(2);
+  });
+
+  it('应忽略崩溃时写入不完整的最后一行', () => {
+    const store = new FileBufferStore<string>(path);
+    store.load();
+    store.append({ id: 1, item: 'a', priority: 0 });
+    appendFileSync(path, '{"op":"add","record":{"id":2,');
+
+    expect(new FileBufferStore<string>(path).load()).toEqual([{ id: 1, item: 'a', priority: 0 }]);
+  });
+
+  it('失效的行达到阈值时应压缩日志', () => {
+    const store = new FileBufferStore<number>(path, { compactThreshold: 4 });
+    store.load();
+    for (let id = 1; id <= 3; id++) {
+      store.append({ id, item: id, priority: 0 });
+    }
+    store.ack(1);
+    expect(lineCount()).toBe(4);
+
+    store.ack(2);
+    expect(lineCount()).toBe(1);
+    expect(new FileBufferStore<number>(path).load()).toEqual([{ id: 3, item: 3, priority: 0 }]);
+  });
+
+  it('队列崩溃后应从日志恢复未被成功消费的数据项', async () => {
+    const first = new ProdConsPQueue<string, void>({ store: new FileBufferStore(path) });
+    await first.produce(async () => 'a');
+    await first.produce(async () => 'b', { priority: 1 });
+    await first.produce(async () => 'c');
+    first.consume(async (data) => {
+      if (data !== 'b') {
+        // 模拟进程在消费过程中崩溃
+        return new Promise<void>(() => {});
+      }
+    });
+    await new Promise(resolve => setTimeout(resolve, 1));
+    await first.destroy();
+
+    const second = new ProdConsPQueue<string, void>({ store: new FileBufferStore(path) });
+    expect(second.getPendingJobs()).toBe(2);
+    const consumed: string[] = [];
+    second.consume(async (data) => {
+      consumed.push(data);
+    });
+    await second.waitForEmpty();
+
+    expect(consumed).toEqual(['a', 'c']);
+    expect(new FileBufferStore(path).load()).toEqual([]);
+    await second.destroy();
+  });
+});
@@ -0,0 +1,163 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { BufferStore, StoredItem } from './buffer-store';
+
+/**
+ * FileBufferStore 的可选参数。
+ */
+export interface FileBufferStoreOptions {
+    /**
+     * 日志中已失效的行数达到该值、且不少于有效记录数时压缩日志。
+     * @default 1000
+     */
+    compactThreshold?: number;
+}
+
+/**
+ * @private
+ * 日志中的一行：追加一条记录，或确认一条记录。
+ */
+type LogLine<TItem> =
+    | { op: 'add', record: StoredItem<TItem> }
+    | { op: 'ack', id: number };
+
+/**
+ * 基于文件的缓冲区存储。以只追加的 JSON Lines 日志记录追加和确认操作，
+ * 失效的行累积到一定数量后，将有效记录重写到新文件并原子替换旧日志。
+ * 数据项必须能被 `JSON.stringify` 序列化。写入使用同步 I/O，`produce` 解析时记录已落盘。
+ *
+ * @template TItem - 数据项类型
+ *
+ * @example
+ * ```typescript
+ * import { FileBufferStore } from 'prod-cons-pqueue/file-buffer-store';
+ *
+ * const queue = new ProdConsPQueue({ store: new FileBufferStore('./data/queue.log') });
+ * // 进程崩溃重启后，未被成功消费的数据项会重新出现在缓冲区中
+ * ```
+ */
+export class FileBufferStore<TItem = any> implements BufferStore<TItem> {
+    /**
+     * @private
+     * 日志文件路径
+     */
+    private path: string;
+    /**
+     * @private
+     * 压缩阈值
+     */
+    private compactThreshold: number;
+    /**
+     * @private
+     * 以编号为键的未确认记录
+     */
+    private records: Map<number, StoredItem<TItem>> = new Map();
+    /**
+     * @private
+     * 日志中已失效的行数（被确认的追加行和确认行）
+     */
+    private staleLines: number = 0;
+
+    /**
+     * 创建一个文件存储，日志所在的目录不存在时会被创建。
+     * @param {string} path - 日志文件路径。
+     * @param {FileBufferStoreOptions} [options={}] - 压缩参数。
+     */
+    constructor(path: string, options: FileBufferStoreOptions = {}) {
+        const { compactThreshold = 1000 } = options;
+        this.path = path;
+        this.compactThreshold = compactThreshold;
+        mkdirSync(dirname(path), { recursive: true });
+    }
+
+    /**
+     * 读取日志并重建未确认的记录，随后压缩日志。
+     * 进程在写入一行的过程中崩溃时，日志末尾可能是不完整的行，这样的行会被忽略。
+     * @returns {StoredItem<TItem>[]} 尚未确认的记录，按追加顺序排列。
+     */
+    load(): StoredItem<TItem>[] {
+        this.records.clear();
+
+        if (existsSync(this.path)) {
+            const lines = readFileSync(this.path, 'utf8').split('\n');
+            for (const line of lines) {
+                const entry = this.parseLine(line);
+                if (entry?.op === 'add') {
+                    this.records.set(entry.record.id, entry.record);
+                } else if (entry?.op === 'ack') {
+                    this.records.delete(entry.id);
+                }
+            }
+        }
+
+        this.compact();
+        return Array.from(this.records.values());
+    }
+
+    append(record: StoredItem<TItem>): void {
+        this.write({ op: 'add', record });
+        this.records.set(record.id, record);
+    }
+
+    ack(id: number): void {
+        if (!this.records.delete(id)) {
+            return;
+        }
+
+        this.write({ op: 'ack', id });
+        this.staleLines += 2;
+        if (this.staleLines >= this.compactThreshold && this.staleLines >= this.records.size) {
+            this.compact();
+        }
+    }
+
+    clear(): void {
+        this.records.clear();
+        this.compact();
+    }
+
+    /**
+     * 将未确认的记录重写到临时文件，再替换原日志。
+     */
+    compact(): void {
+        const tmpPath = `${this.path}.tmp`;
+        const content = Array.from(this.records.values())
+            .map(record => this.serialize({ op: 'add', record }))
+            .join('');
+
+        writeFileSync(tmpPath, content);
+        renameSync(tmpPath, this.path);
+        this.staleLines = 0;
+    }
+
+    /**
+     * @private
+     * 向日志追加一行。
+     */
+    private write(line: LogLine<TItem>): void {
+        appendFileSync(this.path, this.serialize(line));
+    }
+
+    /**
+     * @private
+     * 将一行序列化为以换行结尾的 JSON。
+     */
+    private serialize(line: LogLine<TItem>): string {
+        return `${JSON.stringify(line)}\n`;
+    }
+
+    /**
+     * @private
+     * 解析一行日志，空行或不完整的行返回 `null`。
+     */
+    private parseLine(line: string): LogLine<TItem> | null {
+        if (line.trim() === '') {
+            return null;
+        }
+        try {
+            return JSON.parse(line) as LogLine<TItem>;
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * 随数据项在队列中流转的上下文。同一个数据项从 `produce` 到最终消费结束始终使用同一个上下文对象，
+ * 它会依次传给各个生命周期钩子，并作为第三个参数传给消费函数。
+ * 例外是 `'broadcast'` 模式的消费者组：每个组消费时使用该对象的一份副本，`values` 仍然共享。
+ * @template TItem - 数据项类型
+ */
+export interface ItemContext<TItem = any> {
+    /** 数据项在队列中的唯一编号 */
+    readonly id: number;
+    /** 当前所处的阶段 */
+    stage: 'produce' | 'consume';
+    /** 数据项，生产函数完成之前为 `undefined` */
+    item: TItem | undefined;
+    /** 当前是第几次消费尝试，生产阶段为 0 */
+    attempt: number;
+    /**
+     * 随数据项传递的键值对，初始值来自 `produce` 的 `context` 选项。
+     * 钩子可以写入需要传播的数据（例如追踪上下文）；使用持久化存储时会随数据项一起保存，因此应当可以序列化。
+     */
+    readonly values: Record<string, unknown>;
+}
+
+/**
+ * 生产和消费的生命周期钩子，所有方法都是可选的。
+ * 钩子同步执行，按注册顺序调用；钩子抛出的异常通过 'error' 事件（`phase: 'hook'`）报告，不会影响数据项的处理。
+ * @template TItem - 数据项类型
+ * @template TResult - 消费结果类型
+ */
+export interface ProdConsHooks<TItem = any, TResult = unknown> {
+    /**
+     * 拿到槽位之后、调用生产函数之前。
+     * @param {ItemContext<TItem>} context - 数据项的上下文，此时 `item` 尚未生成。
+     */
+    beforeProduce?(context: ItemContext<TItem>): void;
+    /**
+     * 数据项放入缓冲区之后。
+     * @param {ItemContext<TItem>} context - 数据项的上下文。
+     */
+    afterProduce?(context: ItemContext<TItem>): void;
+    /**
+     * 每次调用消费函数之前（批量模式下对这一批中的每个数据项各调用一次）。
+     * @param {ItemContext<TItem>} context - 数据项的上下文。
+     */
+    beforeConsume?(context: ItemContext<TItem>): void;
+    /**
+     * 数据项被成功消费之后。
+     * @param {ItemContext<TItem>} context - 数据项的上下文。
+     * @param {TResult} result - 消费结果。
+     */
+    afterConsume?(context: ItemContext<TItem>, result: TResult): void;
+    /**
+     * 生产函数失败，或某次消费尝试失败、超时或被中止之后。通过 `context.stage` 区分阶段。
+     * @param {ItemContext<TItem>} context - 数据项的上下文。
+     * @param {unknown} error - 失败原因。
+     */
+    onError?(context: ItemContext<TItem>, error: unknown): void;
+}
@@ -0,0 +1,389 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import ProdConsPQueue, {
+  ConsumerError,
+  formatPrometheus,
+  MemoryBufferStore,
+  TracingHooks,
+  InMemorySpanRecorder,
+  pipeline,
+  JsonSnapshotSerializer,
+  type Pipeline,
+  type QueueSnapshot,
+  type BufferStore,
+  type ConsumerGroupStats,
+  type StoredItem,
+  type BatchOptions,
+  type ConcurrencyChangeEvent,
+  type CloseOptions,
+  type CloseSummary,
+  type DeadLetter,
+  type DeduplicatedEvent,
+  type DroppedEvent,
+  type ItemContext,
+  type ProdConsHooks,
+  type ItemConsumedEvent,
+  type ItemFailedEvent,
+  type ConsumerTimeoutEvent,
+  type ProdConsEventMap,
+  type ProdConsEventName,
+  type ProduceHandle,
+  type ProduceOptions,
+  type ProdConsStats,
+  type MetricsSnapshot,
+  type QueueErrorEvent,
+  type RateLimit,
+  type RateLimitedEvent,
+  type RateLimitState,
+  type WaitOptions,
+} from './index';
+
+interface Job {
+  id: number;
+  payload: string;
+}
+
+describe('ProdConsPQueue 类型', () => {
+  const queue = new ProdConsPQueue<Job, boolean>({ slotAmount: 5, concurrency: 2 });
+
+  it('未指定泛型时保持宽松的默认类型', () => {
+    const untyped = new ProdConsPQueue();
+    expectTypeOf(untyped).toEqualTypeOf<ProdConsPQueue<any, unknown>>();
+    expectTypeOf(untyped.produce).parameter(0).returns.toEqualTypeOf<Promise<any>>();
+  });
+
+  it('produce 只接受解析为 TItem 的生产函数', () => {
+    expectTypeOf(queue.produce).parameter(0).toEqualTypeOf<(signal: AbortSignal) => Promise<Job>>();
+    expectTypeOf(queue.produce).parameter(1).toEqualTypeOf<ProduceOptions | undefined>();
+    expectTypeOf(queue.produce).returns.toEqualTypeOf<Promise<void>>();
+    queue.produce(async () => ({ id: 1, payload: '' }), { priority: 1, orderKey: 2, consumeTimeoutMs: 100, timeoutMs: 50 });
+    queue.produce(async (signal) => {
+      expectTypeOf(signal).toEqualTypeOf<AbortSignal>();
+      return { id: 1, payload: '' };
+    });
+
+    // @ts-expect-error 排序键必须是数字
+    queue.produce(async () => ({ id: 1, payload: '' }), { orderKey: 'a' });
+    // @ts-expect-error 生产函数的解析值必须是 Job
+    queue.produce(async () => 'not a job');
+  });
+
+  it('延迟消费接收时长、Date 或时间戳', () => {
+    queue.produce(async () => ({ id: 1, payload: '' }), { delayMs: 1000 });
+    queue.produce(async () => ({ id: 1, payload: '' }), { runAt: new Date() });
+    queue.produce(async () => ({ id: 1, payload: '' }), { runAt: Date.now() + 1000 });
+    new ProdConsPQueue<Job>({ scheduledHoldsSlot: false });
+    expectTypeOf(queue.getStats().scheduledJobs).toEqualTypeOf<number>();
+
+    // @ts-expect-error runAt 不接受字符串
+    queue.produce(async () => ({ id: 1, payload: '' }), { runAt: '2030-01-01' });
+  });
+
+  it('produceTracked 返回携带 TResult 的句柄', () => {
+    expectTypeOf(queue.produceTracked).parameter(0).toEqualTypeOf<(signal: AbortSignal) => Promise<Job>>();
+    expectTypeOf(queue.produceTracked).parameter(1).toEqualTypeOf<ProduceOptions | undefined>();
+    expectTypeOf(queue.produceTracked).returns.toEqualTypeOf<Promise<ProduceHandle<Job, boolean>>>();
+    expectTypeOf<ProduceHandle<Job, boolean>['result']>().toEqualTypeOf<Promise<boolean>>();
+    expectTypeOf<ProduceHandle<Job, boolean>['cancel']>().toEqualTypeOf<() => boolean>();
+  });
+
+  it('consume 回调接收 TItem 并返回 TResult', () => {
+    queue.consume(async (data, signal) => {
+      expectTypeOf(data).toEqualTypeOf<Job>();
+      expectTypeOf(signal).toEqualTypeOf<AbortSignal>();
+      return data.id > 0;
+    });
+
+    // @ts-expect-error 消费函数必须返回 Promise<boolean>
+    queue.consume(async (data) => data.payload);
+  });
+
+  it('consumeBatch 回调接收 TItem[] 并逐项返回 TResult', () => {
+    expectTypeOf(queue.consumeBatch).parameter(1).toEqualTypeOf<BatchOptions | undefined>();
+
+    queue.consumeBatch(async (items, signal) => {
+      expectTypeOf(items).toEqualTypeOf<Job[]>();
+      expectTypeOf(signal).toEqualTypeOf<AbortSignal>();
+      return Promise.allSettled(items.map(async (item) => item.id > 0));
+    }, { maxSize: 10, maxWaitMs: 100 });
+    queue.consumeBatch(async () => {});
+
+    // @ts-expect-error 逐项结果必须是 boolean
+    queue.consumeBatch(async (items) => Promise.allSettled(items.map(async (item) => item.payload)));
+  });
+
+  it('异步迭代产出 TResult，fromAsyncIterable 接收 TItem', async () => {
+    expectTypeOf(queue[Symbol.asyncIterator]).returns.toEqualTypeOf<AsyncIterator<boolean>>();
+    for await (const result of queue) {
+      expectTypeOf(result).toEqualTypeOf<boolean>();
+    }
+
+    expectTypeOf(queue.fromAsyncIterable).returns.toEqualTypeOf<Promise<number>>();
+    queue.fromAsyncIterable([{ id: 1, payload: '' }], { priority: 1 });
+    // @ts-expect-error 来源中的值必须是 Job
+    queue.fromAsyncIterable(['not a job']);
+  });
+
+  it('事件监听器的负载与事件名称对应', () => {
+    queue.on('free-slot-amount-change', (value) => {
+      expectTypeOf(value).toEqualTypeOf<number>();
+    });
+    queue.on('blocked-state-change', (value) => {
+      expectTypeOf(value).toEqualTypeOf<boolean>();
+    });
+    queue.on('destroy', (value) => {
+      expectTypeOf(value).toEqualTypeOf<ProdConsPQueue<Job, boolean>>();
+    });
+    queue.on('idle', (value) => {
+      expectTypeOf(value).toEqualTypeOf<void>();
+    });
+    queue.on('empty', () => {});
+    queue.on('item-consumed', (value) => {
+      expectTypeOf(value).toEqualTypeOf<ItemConsumedEvent<Job, boolean>>();
+      expectTypeOf(value.result).toEqualTypeOf<boolean>();
+    });
+    queue.on('item-failed', (value) => {
+      expectTypeOf(value).toEqualTypeOf<ItemFailedEvent<Job>>();
+      expectTypeOf(value.item).toEqualTypeOf<Job>();
+    });
+    queue.on('item-dead-lettered', (value) => {
+      expectTypeOf(value).toEqualTypeOf<DeadLetter<Job>>();
+    });
+    queue.on('timeout', (value) => {
+      expectTypeOf(value).toEqualTypeOf<ConsumerTimeoutEvent<Job>>();
+    });
+    queue.on('close', (value) => {
+      expectTypeOf(value).toEqualTypeOf<CloseSummary>();
+    });
+    queue.on('concurrency-change', (value) => {
+      expectTypeOf(value).toEqualTypeOf<ConcurrencyChangeEvent>();
+      expectTypeOf(value.reason).toEqualTypeOf<'manual' | 'adaptive'>();
+    });
+    queue.on('rate-limited', (value) => {
+      expectTypeOf(value).toEqualTypeOf<RateLimitedEvent>();
+    });
+    queue.on('dropped', (value) => {
+      expectTypeOf(value).toEqualTypeOf<DroppedEvent<Job>>();
+    });
+    queue.on('error', (value) => {
+      expectTypeOf(value).toEqualTypeOf<QueueErrorEvent<Job>>();
+      expectTypeOf(value.item).toEqualTypeOf<Job | undefined>();
+    });
+
+    const listener = (value: boolean) => void value;
+    queue.off('blocked-state-change', listener);
+
+    // @ts-expect-error 未知的事件名称
+    queue.on('unknown-event', () => {});
+    // @ts-expect-error 负载类型不匹配
+    queue.off('free-slot-amount-change', listener);
+  });
+
+  it('ConsumerError 携带数据项类型，logger 与 console 兼容', () => {
+    expectTypeOf(new ConsumerError<Job>({ id: 1, payload: '' }, 1, null).item).toEqualTypeOf<Job>();
+    new ProdConsPQueue({ logger: console });
+    new ProdConsPQueue({ logger: { error: () => {} } });
+
+    // @ts-expect-error logger 必须提供 error 方法
+    new ProdConsPQueue({ logger: {} });
+  });
+
+  it('coalesce 的键函数接收 TItem', () => {
+    new ProdConsPQueue<Job>({ overflow: 'drop-oldest' });
+    new ProdConsPQueue<Job>({ overflow: { coalesce: (job) => job.id } });
+
+    // @ts-expect-error 未知的溢出策略
+    new ProdConsPQueue<Job>({ overflow: 'drop-random' });
+    // @ts-expect-error Job 上没有 key 属性
+    new ProdConsPQueue<Job>({ overflow: { coalesce: (job) => job.key } });
+  });
+
+  it('weight 接收 TItem 并返回数字', () => {
+    new ProdConsPQueue<Job>({ weight: (job) => job.payload.length });
+
+    // @ts-expect-error 权重必须是数字
+    new ProdConsPQueue<Job>({ weight: (job) => job.payload });
+  });
+
+  it('consumeGroup 的消费函数与 consume 相同', () => {
+    queue.consumeGroup('audit', async (job, signal, context) => {
+      expectTypeOf(job).toEqualTypeOf<Job>();
+      expectTypeOf(signal).toEqualTypeOf<AbortSignal>();
+      expectTypeOf(context).toEqualTypeOf<ItemContext<Job>>();
+      return true;
+    }, { concurrency: 2, weight: 3 });
+    expectTypeOf(queue.getStats().groups.audit).toEqualTypeOf<ConsumerGroupStats>();
+    new ProdConsPQueue<Job>({ consumerGroupMode: 'broadcast' });
+
+    // @ts-expect-error 消费结果必须是 boolean
+    queue.consumeGroup('audit', async () => 'done');
+    // @ts-expect-error 未知的分发方式
+    new ProdConsPQueue<Job>({ consumerGroupMode: 'round-robin' });
+  });
+
+  it('去重的键函数和合并函数接收 TItem', () => {
+    new ProdConsPQueue<Job>({
+      dedupeKey: (job) => job.id,
+      dedupeStrategy: { merge: (existing, incoming) => ({ ...existing, payload: existing.payload + incoming.payload }) },
+      dedupeTtlMs: 1000
+    });
+    queue.on('deduplicated', (event) => {
+      expectTypeOf(event).toEqualTypeOf<DeduplicatedEvent<Job>>();
+      expectTypeOf(event.action).toEqualTypeOf<'skip' | 'replace' | 'merge'>();
+    });
+
+    // @ts-expect-error 合并函数必须返回 TItem
+    new ProdConsPQueue<Job>({ dedupeKey: (job) => job.id, dedupeStrategy: { merge: () => 'merged' } });
+    // @ts-expect-error 未知的去重策略
+    new ProdConsPQueue<Job>({ dedupeStrategy: 'drop' });
+  });
+
+  it('snapshot 与 restore 使用 TItem 和序列化结果的类型', () => {
+    const serializer = new JsonSnapshotSerializer<Job>();
+    expectTypeOf(queue.snapshot()).toEqualTypeOf<QueueSnapshot<Job>>();
+    expectTypeOf(queue.snapshot(serializer)).toEqualTypeOf<string>();
+    expectTypeOf(ProdConsPQueue.restore<Job, boolean>(queue.snapshot())).toEqualTypeOf<ProdConsPQueue<Job, boolean>>();
+    expectTypeOf(ProdConsPQueue.restore(queue.snapshot(serializer), { serializer, slotAmount: 5 }))
+      .toEqualTypeOf<ProdConsPQueue<Job, unknown>>();
+
+    // @ts-expect-error 序列化后的快照需要提供 serializer
+    ProdConsPQueue.restore(queue.snapshot(serializer));
+    // @ts-expect-error 序列化方式的数据项类型必须与 TItem 一致
+    queue.snapshot(new JsonSnapshotSerializer<string>());
+  });
+
+  it('pipeline 相邻阶段的类型需要一致', () => {
+    const parse = { queue: new ProdConsPQueue<string, number>(), consume: async (line: string) => Number(line) };
+    const write = { queue: new ProdConsPQueue<number, boolean>(), consume: async (value: number) => value > 0 };
+
+    expectTypeOf(pipeline([parse, write])).toEqualTypeOf<Pipeline<string, boolean>>();
+    expectTypeOf(pipeline([parse, write]).produce).parameter(0).toEqualTypeOf<(signal: AbortSignal) => Promise<string>>();
+
+    // @ts-expect-error 第一个阶段输出 number，第二个阶段接收 string
+    pipeline([parse, parse]);
+  });
+
+  it('store 的数据项类型与 TItem 一致', () => {
+    new ProdConsPQueue<Job>({ store: new MemoryBufferStore<Job>() });
+    expectTypeOf<BufferStore<Job>['load']>().returns.toEqualTypeOf<StoredItem<Job>[]>();
+
+    // @ts-expect-error 存储的数据项类型必须是 Job
+    new ProdConsPQueue<Job>({ store: new MemoryBufferStore<string>() });
+  });
+
+  it('setConcurrency 与自适应并发配置', () => {
+    expectTypeOf(queue.setConcurrency).parameters.toEqualTypeOf<[number]>();
+    expectTypeOf(queue.getConcurrency).returns.toEqualTypeOf<number>();
+    new ProdConsPQueue({ adaptiveConcurrency: { max: 16, targetLatencyMs: 200 } });
+
+    // @ts-expect-error 必须指定上限
+    new ProdConsPQueue({ adaptiveConcurrency: { min: 2 } });
+  });
+
+  it('setRateLimit 接收一侧和速率限制', () => {
+    expectTypeOf(queue.setRateLimit).parameters.toEqualTypeOf<['produce' | 'consume', RateLimit | null]>();
+    new ProdConsPQueue({ produceRateLimit: { limit: 10, intervalMs: 1000, strategy: 'sliding-window' } });
+
+    // @ts-expect-error 未知的限流算法
+    new ProdConsPQueue({ consumeRateLimit: { limit: 10, intervalMs: 1000, strategy: 'leaky-bucket' } });
+  });
+
+  it('close 接收关闭方式并返回关闭结果', () => {
+    expectTypeOf(queue.close).parameter(0).toEqualTypeOf<CloseOptions | undefined>();
+    expectTypeOf(queue.close).returns.toEqualTypeOf<Promise<CloseSummary>>();
+    queue.close({ mode: 'abort', timeoutMs: 100 });
+
+    // @ts-expect-error 未知的关闭方式
+    queue.close({ mode: 'force' });
+  });
+
+  it('waitForEvent 的条件函数与返回值使用事件负载类型', () => {
+    expectTypeOf(queue.waitForEvent('blocked-state-change', (value) => value === false))
+      .toEqualTypeOf<Promise<boolean | null>>();
+    expectTypeOf(queue.waitForEvent('free-slot-amount-change'))
+      .toEqualTypeOf<Promise<number | null>>();
+
+    // @ts-expect-error 条件函数的参数是 boolean
+    queue.waitForEvent('blocked-state-change', (value: number) => value > 0);
+  });
+
+  it('事件映射与事件名称', () => {
+    expectTypeOf<'free-slot-amount-change' | 'blocked-state-change' | 'destroy'>()
+      .toMatchTypeOf<ProdConsEventName>();
+    expectTypeOf<ProdConsEventMap<Job, boolean>['destroy']>()
+      .toEqualTypeOf<ProdConsPQueue<Job, boolean>>();
+  });
+
+  it('重试策略的 shouldRetry 接收 TItem', () => {
+    new ProdConsPQueue<Job>({
+      retry: {
+        maxAttempts: 3,
+        backoff: 'exponential',
+        shouldRetry: (error, item, attempt) => {
+          expectTypeOf(error).toEqualTypeOf<unknown>();
+          expectTypeOf(item).toEqualTypeOf<Job>();
+          expectTypeOf(attempt).toEqualTypeOf<number>();
+          return true;
+        },
+      },
+    });
+
+    // @ts-expect-error 不支持的退避方式
+    new ProdConsPQueue<Job>({ retry: { backoff: 'linear' } });
+  });
+
+  it('死信队列 API 使用 TItem', () => {
+    expectTypeOf(queue.getDeadLetters).returns.toEqualTypeOf<DeadLetter<Job>[]>();
+    expectTypeOf(queue.drainDeadLetters).returns.toEqualTypeOf<DeadLetter<Job>[]>();
+    expectTypeOf(queue.requeueDeadLetters).parameter(0)
+      .toEqualTypeOf<((letter: DeadLetter<Job>) => boolean) | undefined>();
+    expectTypeOf(queue.requeueDeadLetters).returns.toEqualTypeOf<Promise<number>>();
+  });
+
+  it('其余公共方法的签名', () => {
+    expectTypeOf(queue.setSlotAmount).toEqualTypeOf<(n: number) => void>();
+    expectTypeOf(queue.getSlotAmount).returns.toEqualTypeOf<number>();
+    expectTypeOf(queue.getPendingJobs).returns.toEqualTypeOf<number>();
+    expectTypeOf(queue.getRunningJobs).returns.toEqualTypeOf<number>();
+    expectTypeOf(queue.getFreeSlotAmount).returns.toEqualTypeOf<number>();
+    expectTypeOf(queue.isBlocked).returns.toEqualTypeOf<boolean>();
+    expectTypeOf(queue.hasFreeSlot).returns.toEqualTypeOf<Promise<boolean>>();
+    expectTypeOf(queue.hasFreeSlot).parameter(0).toEqualTypeOf<WaitOptions | undefined>();
+    expectTypeOf(queue.tryProduce).returns.toEqualTypeOf<Promise<boolean>>();
+    expectTypeOf<ProduceOptions['signal']>().toEqualTypeOf<AbortSignal | undefined>();
+    expectTypeOf(queue.isIdle).returns.toEqualTypeOf<boolean>();
+    expectTypeOf(queue.waitForEmpty).toEqualTypeOf<(options?: WaitOptions) => Promise<void>>();
+    expectTypeOf(queue.waitForConsumption).toEqualTypeOf<(options?: WaitOptions) => Promise<void>>();
+    expectTypeOf(queue.pause).returns.toEqualTypeOf<Promise<void>>();
+    expectTypeOf(queue.start).returns.toEqualTypeOf<Promise<void>>();
+    expectTypeOf(queue.clear).returns.toEqualTypeOf<Promise<void>>();
+    expectTypeOf(queue.destroy).returns.toEqualTypeOf<Promise<void>>();
+    expectTypeOf(queue.getStats).returns.toEqualTypeOf<ProdConsStats>();
+    expectTypeOf<ProdConsStats['pendingByPriority']>().toEqualTypeOf<Record<number, number>>();
+    expectTypeOf<ProdConsStats['rateLimits']['produce']>().toEqualTypeOf<RateLimitState | null>();
+  });
+
+  it('getMetrics 的结果可以直接交给 formatPrometheus', () => {
+    expectTypeOf(queue.getMetrics).returns.toEqualTypeOf<MetricsSnapshot>();
+    expectTypeOf(formatPrometheus(queue.getMetrics(), { stats: queue.getStats() })).toEqualTypeOf<string>();
+  });
+
+  it('钩子和消费函数收到类型化的数据项上下文', () => {
+    queue.addHooks({
+      afterProduce: context => {
+        expectTypeOf(context).toEqualTypeOf<ItemContext<Job>>();
+        expectTypeOf(context.item).toEqualTypeOf<Job | undefined>();
+      },
+      afterConsume: (_context, result) => {
+        expectTypeOf(result).toEqualTypeOf<boolean>();
+      }
+    });
+    queue.consume(async (_job, _signal, context) => {
+      expectTypeOf(context.values).toEqualTypeOf<Record<string, unknown>>();
+      return true;
+    });
+    expectTypeOf<ProduceOptions['context']>().toEqualTypeOf<Record<string, unknown> | undefined>();
+    expectTypeOf(new TracingHooks<Job, boolean>(new InMemorySpanRecorder()))
+      .toMatchTypeOf<ProdConsHooks<Job, boolean>>();
+    expectTypeOf<QueueErrorEvent['hook']>().toEqualTypeOf<keyof ProdConsHooks | undefined>();
+  });
+});
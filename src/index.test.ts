@@ -1,5 +1,23 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import ProdConsPQueue from './index';
+import ProdConsPQueue, {
+  BatchOutcomeError,
+  ConsumerError,
+  InMemorySpanRecorder,
+  MemoryBufferStore,
+  ProdConsError,
+  QueueCancelledError,
+  QueueClearedError,
+  QueueClosedError,
+  QueueDestroyedError,
+  QueueDuplicateError,
+  QueueOverflowError,
+  QueueTimeoutError,
+  TracingHooks,
+  type DeduplicatedEvent,
+  type DroppedEvent,
+  type QueueErrorEvent,
+  type Span
+} from './index';
 
 describe('ProdConsPQueue', () => {
   let prodCons: ProdConsPQueue;
@@ -308,6 +326,2285 @@ describe('ProdConsPQueue', () => {
     });
   });
 
+  describe('重试与死信队列测试', () => {
+    it('未配置重试时失败的数据项应进入死信队列', async () => {
+      const failed: any[] = [];
+      const deadLettered: any[] = [];
+      prodCons.on('item-failed', (event) => failed.push(event));
+      prodCons.on('item-dead-lettered', (letter) => deadLettered.push(letter));
+
+      const error = new Error('消费错误');
+      prodCons.consume(async (data) => {
+        if (data === 'bad') throw error;
+      });
+
+      await prodCons.produce(async () => 'good');
+      await prodCons.produce(async () => 'bad');
+      await prodCons.waitForEmpty();
+
+      expect(failed).toEqual([{ item: 'bad', error, attempt: 1, willRetry: false }]);
+      expect(deadLettered).toHaveLength(1);
+      expect(prodCons.getDeadLetters()).toEqual([
+        { item: 'bad', error, attempts: 1, failedAt: expect.any(Number) }
+      ]);
+      expect(prodCons.getFreeSlotAmount()).toBe(5);
+    });
+
+    it('应该按 maxAttempts 重试，成功后不进入死信队列', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 5, retry: { maxAttempts: 3 } });
+      let calls = 0;
+      queue.consume(async () => {
+        calls++;
+        if (calls < 3) throw new Error('暂时失败');
+      });
+
+      await queue.produce(async () => 'data');
+      await queue.waitForEmpty();
+
+      expect(calls).toBe(3);
+      expect(queue.getDeadLetters()).toEqual([]);
+      await queue.destroy();
+    });
+
+    it('耗尽重试次数后应进入死信队列并记录尝试次数', async () => {
+      const queue = new ProdConsPQueue({ retry: { maxAttempts: 2, delayMs: 1 } });
+      const attempts: Array<[number, boolean]> = [];
+      queue.on('item-failed', ({ attempt, willRetry }) => attempts.push([attempt, willRetry]));
+      queue.consume(async () => {
+        throw new Error('总是失败');
+      });
+
+      await queue.produce(async () => 'data');
+      await queue.waitForEmpty();
+
+      expect(attempts).toEqual([[1, true], [2, false]]);
+      expect(queue.getDeadLetters()[0].attempts).toBe(2);
+      await queue.destroy();
+    });
+
+    it('shouldRetry 返回 false 时不再重试', async () => {
+      const shouldRetry = vi.fn(() => false);
+      const queue = new ProdConsPQueue({ retry: { maxAttempts: 5, shouldRetry } });
+      const error = new Error('不可重试');
+      queue.consume(async () => {
+        throw error;
+      });
+
+      await queue.produce(async () => 'data');
+      await queue.waitForEmpty();
+
+      expect(shouldRetry).toHaveBeenCalledWith(error, 'data', 1);
+      expect(queue.getDeadLetters()).toHaveLength(1);
+      await queue.destroy();
+    });
+
+    it('应该按指数退避等待', async () => {
+      vi.useFakeTimers();
+      try {
+        const queue = new ProdConsPQueue({
+          retry: { maxAttempts: 3, backoff: 'exponential', delayMs: 100, factor: 2 }
+        });
+        const callTimes: number[] = [];
+        queue.consume(async () => {
+          callTimes.push(Date.now());
+          throw new Error('失败');
+        });
+
+        const start = Date.now();
+        await queue.produce(async () => 'data');
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(callTimes.map(time => time - start)).toEqual([0, 100, 300]);
+        await queue.destroy();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('maxDeadLetters 超出时应丢弃最早的记录', async () => {
+      const queue = new ProdConsPQueue({ maxDeadLetters: 2 });
+      queue.consume(async () => {
+        throw new Error('失败');
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await queue.produce(async () => i);
+      }
+      await queue.waitForEmpty();
+
+      expect(queue.getDeadLetters().map(letter => letter.item)).toEqual([1, 2]);
+      await queue.destroy();
+    });
+
+    it('应该能够取出和重新入队死信', async () => {
+      let shouldFail = true;
+      const consumed: any[] = [];
+      prodCons.consume(async (data) => {
+        if (shouldFail) throw new Error('失败');
+        consumed.push(data);
+      });
+
+      await prodCons.produce(async () => 'a');
+      await prodCons.produce(async () => 'b');
+      await prodCons.waitForEmpty();
+      expect(prodCons.getDeadLetters()).toHaveLength(2);
+
+      shouldFail = false;
+      const requeued = await prodCons.requeueDeadLetters(letter => letter.item === 'a');
+      await prodCons.waitForEmpty();
+
+      expect(requeued).toBe(1);
+      expect(consumed).toEqual(['a']);
+      expect(prodCons.drainDeadLetters().map(letter => letter.item)).toEqual(['b']);
+      expect(prodCons.getDeadLetters()).toEqual([]);
+    });
+  });
+
+  describe('produceTracked测试', () => {
+    it('句柄的 result 应以消费函数的返回值解析', async () => {
+      const queue = new ProdConsPQueue<number, number>();
+      queue.consume(async (data) => data * 2);
+
+      const handle = await queue.produceTracked(async () => 21);
+
+      expect(handle.item).toBe(21);
+      await expect(handle.result).resolves.toBe(42);
+      await queue.destroy();
+    });
+
+    it('消费失败时 result 应以消费错误拒绝', async () => {
+      const error = new Error('消费错误');
+      prodCons.consume(async () => {
+        throw error;
+      });
+
+      const handle = await prodCons.produceTracked(async () => 'data');
+
+      await expect(handle.result).rejects.toBe(error);
+    });
+
+    it('重试成功后 result 应解析', async () => {
+      const queue = new ProdConsPQueue<string, string>({ retry: { maxAttempts: 2 } });
+      let calls = 0;
+      queue.consume(async (data) => {
+        if (++calls === 1) throw new Error('暂时失败');
+        return `${data}-done`;
+      });
+
+      const handle = await queue.produceTracked(async () => 'data');
+
+      await expect(handle.result).resolves.toBe('data-done');
+      await queue.destroy();
+    });
+
+    it('在缓冲区中等待时可以取消', async () => {
+      const consumed: any[] = [];
+      const first = await prodCons.produceTracked(async () => 'a');
+      const second = await prodCons.produceTracked(async () => 'b');
+
+      expect(second.cancel()).toBe(true);
+      expect(prodCons.getPendingJobs()).toBe(1);
+      expect(prodCons.getFreeSlotAmount()).toBe(4);
+      await expect(second.result).rejects.toThrow('Item was cancelled before consumption');
+      await expect(second.result).rejects.toBeInstanceOf(QueueCancelledError);
+
+      prodCons.consume(async (data) => {
+        consumed.push(data);
+      });
+      await first.result;
+
+      expect(consumed).toEqual(['a']);
+      expect(first.cancel()).toBe(false);
+      expect(second.cancel()).toBe(false);
+    });
+
+    it('取消应唤醒等待槽位的生产者', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      const handle = await queue.produceTracked(async () => 'a');
+
+      let produced = false;
+      const pending = queue.produce(async () => 'b').then(() => {
+        produced = true;
+      });
+      await new Promise(resolve => setTimeout(resolve, 1));
+      expect(produced).toBe(false);
+
+      handle.cancel();
+      await pending;
+
+      expect(produced).toBe(true);
+      expect(queue.getPendingJobs()).toBe(1);
+      await queue.destroy();
+    });
+
+    it('clear 和 destroy 应拒绝仍在缓冲区中的句柄', async () => {
+      const cleared = await prodCons.produceTracked(async () => 'a');
+      await prodCons.clear();
+      await expect(cleared.result).rejects.toThrow('ProdConsPQueue has been cleared');
+      await expect(cleared.result).rejects.toBeInstanceOf(QueueClearedError);
+
+      const destroyed = await prodCons.produceTracked(async () => 'b');
+      await prodCons.destroy();
+      await expect(destroyed.result).rejects.toThrow('ProdConsPQueue has been destroyed');
+      expect(prodCons.getPendingJobs()).toBe(0);
+    });
+  });
+
+  describe('优先级测试', () => {
+    it('应该先消费优先级高的数据项', async () => {
+      const queue = new ProdConsPQueue({ concurrency: 1 });
+      const consumed: any[] = [];
+      await queue.produce(async () => 'bulk1');
+      await queue.produce(async () => 'low', { priority: -1 });
+      await queue.produce(async () => 'bulk2');
+      await queue.produce(async () => 'urgent', { priority: 5 });
+      queue.consume(async (data) => {
+        consumed.push(data);
+      });
+      await queue.waitForEmpty();
+
+      expect(consumed).toEqual(['urgent', 'bulk1', 'bulk2', 'low']);
+      await queue.destroy();
+    });
+
+    it('同一优先级内应按 orderKey 排序', async () => {
+      const queue = new ProdConsPQueue({ concurrency: 1 });
+      const consumed: any[] = [];
+      await queue.produce(async () => 'c', { orderKey: 3 });
+      await queue.produce(async () => 'a', { orderKey: 1 });
+      await queue.produce(async () => 'b', { orderKey: 2 });
+
+      queue.consume(async (data) => {
+        consumed.push(data);
+      });
+      await queue.waitForEmpty();
+
+      expect(consumed).toEqual(['a', 'b', 'c']);
+      await queue.destroy();
+    });
+
+    it('getStats 应报告各优先级的待处理数', async () => {
+      await prodCons.produce(async () => 'a');
+      await prodCons.produce(async () => 'b', { priority: 2 });
+      const handle = await prodCons.produceTracked(async () => 'c', { priority: 2 });
+
+      expect(prodCons.getStats().pendingByPriority).toEqual({ 0: 1, 2: 2 });
+
+      handle.cancel();
+
+      expect(prodCons.getStats().pendingByPriority).toEqual({ 0: 1, 2: 1 });
+    });
+  });
+
+  describe('超时与中止测试', () => {
+    it('消费超时应释放槽位并触发 timeout 事件', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 2, consumeTimeoutMs: 10 });
+      const timeouts: any[] = [];
+      let receivedSignal: AbortSignal | undefined;
+      queue.on('timeout', (event) => timeouts.push(event));
+      queue.consume((data, signal) => {
+        receivedSignal = signal;
+        return new Promise(() => {}); // 永不结束
+      });
+
+      const handle = await queue.produceTracked(async () => 'hung');
+      await expect(handle.result).rejects.toThrow('Consumer timed out after 10ms');
+      await queue.waitForEmpty();
+
+      expect(timeouts).toEqual([{ item: 'hung', attempt: 1, timeoutMs: 10 }]);
+      expect(receivedSignal?.aborted).toBe(true);
+      expect(queue.getRunningJobs()).toBe(0);
+      expect(queue.getFreeSlotAmount()).toBe(2);
+      expect(queue.getDeadLetters().map(letter => letter.item)).toEqual(['hung']);
+      await queue.destroy();
+    });
+
+    it('单个数据项的 consumeTimeoutMs 应覆盖队列配置', async () => {
+      const queue = new ProdConsPQueue<number>({ consumeTimeoutMs: 1000 });
+      const timeouts: number[] = [];
+      queue.on('timeout', ({ timeoutMs }) => timeouts.push(timeoutMs));
+      queue.consume(() => new Promise(() => {}));
+
+      const handle = await queue.produceTracked(async () => 1, { consumeTimeoutMs: 5 });
+
+      await expect(handle.result).rejects.toThrow('Consumer timed out after 5ms');
+      expect(timeouts).toEqual([5]);
+      await queue.destroy();
+    });
+
+    it('超时后应按重试策略重试', async () => {
+      const queue = new ProdConsPQueue<string, string>({ consumeTimeoutMs: 5, retry: { maxAttempts: 2 } });
+      let calls = 0;
+      queue.consume((data) => {
+        calls++;
+        return calls === 1 ? new Promise(() => {}) : Promise.resolve(`${data}-ok`);
+      });
+
+      const handle = await queue.produceTracked(async () => 'data');
+
+      await expect(handle.result).resolves.toBe('data-ok');
+      expect(calls).toBe(2);
+      await queue.destroy();
+    });
+
+    it('clear 应中止正在执行的消费并回收槽位', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      prodCons.consume((data, signal) => {
+        receivedSignal = signal;
+        return new Promise(() => {});
+      });
+
+      const handle = await prodCons.produceTracked(async () => 'hung');
+      await new Promise(resolve => setTimeout(resolve, 1));
+      expect(prodCons.getRunningJobs()).toBe(1);
+
+      await prodCons.clear();
+      await expect(handle.result).rejects.toThrow('ProdConsPQueue has been cleared');
+      await new Promise(resolve => setTimeout(resolve, 1));
+
+      expect(receivedSignal?.aborted).toBe(true);
+      expect(prodCons.getRunningJobs()).toBe(0);
+      expect(prodCons.getFreeSlotAmount()).toBe(5);
+      expect(prodCons.getDeadLetters()).toEqual([]);
+
+      // clear 之后的新数据项不受之前中止的影响
+      prodCons.consume(async (data) => `${data}-ok`);
+      const next = await prodCons.produceTracked(async () => 'next');
+      await expect(next.result).resolves.toBe('next-ok');
+    });
+
+    it('等待重试期间被 clear 的数据项不应再被消费', async () => {
+      const queue = new ProdConsPQueue<string>({ retry: { maxAttempts: 3, delayMs: 1000 } });
+      const signals: AbortSignal[] = [];
+      queue.consume(async (data, signal) => {
+        signals.push(signal);
+        throw new Error('失败');
+      });
+
+      const handle = await queue.produceTracked(async () => 'data');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(signals).toHaveLength(1);
+
+      await queue.clear();
+      await expect(handle.result).rejects.toThrow('ProdConsPQueue has been cleared');
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect(signals).toHaveLength(1);
+      expect(queue.getRunningJobs()).toBe(0);
+      expect(queue.getDeadLetters()).toEqual([]);
+      await queue.destroy();
+    });
+
+    it('destroy 应中止进行中的生产函数', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const pending = prodCons.produce((signal) => {
+        receivedSignal = signal;
+        return new Promise(() => {});
+      });
+      await new Promise(resolve => setTimeout(resolve, 1));
+
+      await prodCons.destroy();
+
+      await expect(pending).rejects.toThrow('ProdConsPQueue has been destroyed');
+      expect(receivedSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe('批量消费测试', () => {
+    it('凑满 maxSize 时应立即提交一批', async () => {
+      const queue = new ProdConsPQueue<number>({ slotAmount: 10 });
+      const batches: number[][] = [];
+      queue.consumeBatch(async (items) => {
+        batches.push(items);
+      }, { maxSize: 3, maxWaitMs: 1000 });
+
+      for (let i = 0; i < 6; i++) {
+        await queue.produce(async () => i);
+      }
+      await queue.waitForEmpty();
+
+      expect(batches).toEqual([[0, 1, 2], [3, 4, 5]]);
+      await queue.destroy();
+    });
+
+    it('不足一批时应在 maxWaitMs 后提交', async () => {
+      vi.useFakeTimers();
+      try {
+        const queue = new ProdConsPQueue<number>();
+        const batches: number[][] = [];
+        queue.consumeBatch(async (items) => {
+          batches.push(items);
+        }, { maxSize: 5, maxWaitMs: 50 });
+
+        await queue.produce(async () => 1);
+        await queue.produce(async () => 2);
+        await vi.advanceTimersByTimeAsync(49);
+        expect(batches).toEqual([]);
+        expect(queue.getPendingJobs()).toBe(2);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(batches).toEqual([[1, 2]]);
+        await queue.destroy();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('剩下的数据项应从放入时开始计算 maxWaitMs，而不是从上一批提交时', async () => {
+      vi.useFakeTimers();
+      try {
+        const queue = new ProdConsPQueue<number>();
+        const batches: number[][] = [];
+        queue.consumeBatch(async (items) => {
+          batches.push(items);
+        }, { maxSize: 2, maxWaitMs: 100 });
+
+        await queue.produce(async () => 1);
+        await vi.advanceTimersByTimeAsync(60);
+        await queue.pause();
+        await queue.produce(async () => 2, { priority: 1 });
+        await queue.produce(async () => 3, { priority: 1 });
+        await queue.start();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(batches).toEqual([[2, 3]]);
+
+        await vi.advanceTimersByTimeAsync(39);
+        expect(batches).toEqual([[2, 3]]);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(batches).toEqual([[2, 3], [1]]);
+        await queue.destroy();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('批量消费期间应按数据项占用槽位，按批占用并发', async () => {
+      const queue = new ProdConsPQueue<number>({ slotAmount: 4, concurrency: 1 });
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      queue.consumeBatch(async () => {
+        await gate;
+      }, { maxSize: 2, maxWaitMs: 1000 });
+
+      for (let i = 0; i < 4; i++) {
+        await queue.produce(async () => i);
+      }
+      await new Promise(resolve => setTimeout(resolve, 1));
+
+      expect(queue.getRunningJobs()).toBe(2);
+      expect(queue.getPendingJobs()).toBe(2);
+      expect(queue.getFreeSlotAmount()).toBe(0);
+      expect(queue.isBlocked()).toBe(true);
+
+      release();
+      await queue.waitForConsumption();
+
+      expect(queue.getRunningJobs()).toBe(0);
+      expect(queue.getFreeSlotAmount()).toBe(4);
+      await queue.destroy();
+    });
+
+    it('应该逐项报告部分失败', async () => {
+      const queue = new ProdConsPQueue<number, string>();
+      const failed: any[] = [];
+      queue.on('item-failed', ({ item, willRetry }) => failed.push({ item, willRetry }));
+      queue.consumeBatch(async (items) => Promise.allSettled(items.map(async (item) => {
+        if (item % 2 === 1) throw new Error(`bad ${item}`);
+        return `ok ${item}`;
+      })), { maxSize: 4, maxWaitMs: 1000 });
+
+      const handles = [];
+      for (let i = 0; i < 4; i++) {
+        handles.push(await queue.produceTracked(async () => i));
+      }
+      const results = await Promise.allSettled(handles.map(handle => handle.result));
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'rejected']);
+      expect((results[0] as PromiseFulfilledResult<string>).value).toBe('ok 0');
+      expect(failed).toEqual([{ item: 1, willRetry: false }, { item: 3, willRetry: false }]);
+      expect(queue.getDeadLetters().map(letter => letter.item)).toEqual([1, 3]);
+      await queue.destroy();
+    });
+
+    it('只重试失败的数据项', async () => {
+      const queue = new ProdConsPQueue<number>({ retry: { maxAttempts: 2 } });
+      const batches: number[][] = [];
+      queue.consumeBatch(async (items) => {
+        batches.push(items);
+        return items.map(item => batches.length === 1 && item === 2
+          ? { status: 'rejected' as const, reason: new Error('暂时失败') }
+          : { status: 'fulfilled' as const, value: undefined });
+      }, { maxSize: 3, maxWaitMs: 1000 });
+
+      for (let i = 1; i <= 3; i++) {
+        await queue.produce(async () => i);
+      }
+      await queue.waitForEmpty();
+
+      expect(batches).toEqual([[1, 2, 3], [2]]);
+      expect(queue.getDeadLetters()).toEqual([]);
+      await queue.destroy();
+    });
+
+    it('整批抛出错误时所有数据项都失败', async () => {
+      const queue = new ProdConsPQueue<number>();
+      const error = new Error('批量写入失败');
+      queue.consumeBatch(async () => {
+        throw error;
+      }, { maxSize: 2 });
+
+      await queue.produce(async () => 1);
+      await queue.produce(async () => 2);
+      await queue.waitForEmpty();
+
+      expect(queue.getDeadLetters().map(letter => [letter.item, letter.error])).toEqual([[1, error], [2, error]]);
+      await queue.destroy();
+    });
+
+    it('返回的结果数量不一致时整批应以 BatchOutcomeError 失败', async () => {
+      const queue = new ProdConsPQueue<number>();
+      queue.consumeBatch(async (items) => [...items, 0].map(() => ({ status: 'fulfilled', value: undefined })));
+
+      await queue.produce(async () => 1);
+      await queue.waitForConsumption();
+
+      const [letter] = queue.getDeadLetters();
+      expect(letter.error).toBeInstanceOf(BatchOutcomeError);
+      expect(letter.error).toMatchObject({ expected: 1, received: 2 });
+      await queue.destroy();
+    });
+
+    it('等待重试期间被 clear 的批不应再被提交', async () => {
+      const queue = new ProdConsPQueue<number>({ retry: { maxAttempts: 3, delayMs: 1000 } });
+      const signals: AbortSignal[] = [];
+      queue.consumeBatch(async (items, signal) => {
+        signals.push(signal);
+        throw new Error('批量写入失败');
+      }, { maxSize: 2 });
+
+      const first = await queue.produceTracked(async () => 1);
+      const second = await queue.produceTracked(async () => 2);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(signals).toHaveLength(1);
+
+      await queue.clear();
+      await expect(first.result).rejects.toThrow('ProdConsPQueue has been cleared');
+      await expect(second.result).rejects.toThrow('ProdConsPQueue has been cleared');
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect(signals).toHaveLength(1);
+      expect(queue.getRunningJobs()).toBe(0);
+      expect(queue.getFreeSlotAmount()).toBe(10);
+      await queue.destroy();
+    });
+  });
+
+  describe('异步迭代测试', () => {
+    it('应该按完成顺序产出消费结果', async () => {
+      const queue = new ProdConsPQueue<number, number>();
+      queue.consume(async (data) => data * 10);
+      const iterator = queue[Symbol.asyncIterator]();
+
+      await queue.produce(async () => 1);
+      await queue.produce(async () => 2);
+
+      expect(await iterator.next()).toEqual({ value: 10, done: false });
+      expect(await iterator.next()).toEqual({ value: 20, done: false });
+
+      await queue.destroy();
+      expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it('关闭完成或销毁后创建的迭代器应直接结束', async () => {
+      const closed = new ProdConsPQueue<number, number>();
+      expect(closed.isEnded()).toBe(false);
+      await closed.close();
+      expect(closed.isEnded()).toBe(true);
+      expect(await closed[Symbol.asyncIterator]().next()).toEqual({ value: undefined, done: true });
+
+      const destroyed = new ProdConsPQueue<number, number>();
+      await destroyed.destroy();
+      expect(destroyed.isEnded()).toBe(true);
+      expect(await destroyed[Symbol.asyncIterator]().next()).toEqual({ value: undefined, done: true });
+    });
+
+    it('for await 中 break 后应移除监听器', async () => {
+      const queue = new ProdConsPQueue<number, number>();
+      queue.consume(async (data) => data);
+      const consumed: number[] = [];
+      const on = vi.spyOn(queue, 'on');
+      const off = vi.spyOn(queue, 'off');
+
+      const loop = (async () => {
+        for await (const result of queue) {
+          consumed.push(result);
+          if (consumed.length === 2) break;
+        }
+      })();
+      for (let i = 0; i < 3; i++) {
+        await queue.produce(async () => i);
+      }
+      await loop;
+
+      expect(consumed).toEqual([0, 1]);
+      const registered = on.mock.calls.filter(([event]) => event === 'item-consumed').map(([, listener]) => listener);
+      const removed = off.mock.calls.filter(([event]) => event === 'item-consumed').map(([, listener]) => listener);
+      expect(registered).toHaveLength(1);
+      expect(removed).toEqual(registered);
+      await queue.destroy();
+    });
+
+    it('fromAsyncIterable 应在有空闲槽位时才拉取下一个值', async () => {
+      const queue = new ProdConsPQueue<number>({ slotAmount: 2 });
+      let pulled = 0;
+      async function* source() {
+        for (let i = 0; i < 5; i++) {
+          pulled++;
+          yield i;
+        }
+      }
+
+      const feeding = queue.fromAsyncIterable(source());
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect(queue.getPendingJobs()).toBe(2);
+      expect(pulled).toBe(2);
+
+      const consumed: number[] = [];
+      queue.consume(async (data) => {
+        consumed.push(data);
+      });
+
+      expect(await feeding).toBe(5);
+      await queue.waitForEmpty();
+      expect(consumed).toEqual([0, 1, 2, 3, 4]);
+      await queue.destroy();
+    });
+
+    it('fromAsyncIterable 应支持同步可迭代对象和生产参数', async () => {
+      const queue = new ProdConsPQueue<string>();
+
+      await queue.fromAsyncIterable(['a', 'b'], { priority: 3 });
+
+      expect(queue.getStats().pendingByPriority).toEqual({ 3: 2 });
+      await queue.destroy();
+    });
+  });
+
+  describe('空闲跟踪测试', () => {
+    it('应该在缓冲区变空和队列空闲时触发 empty 和 idle 事件', async () => {
+      const events: string[] = [];
+      prodCons.on('empty', () => events.push('empty'));
+      prodCons.on('idle', () => events.push('idle'));
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => {
+        release = resolve;
+      });
+
+      await prodCons.produce(async () => 'data');
+      expect(prodCons.isIdle()).toBe(false);
+
+      prodCons.consume(async () => {
+        await gate;
+      });
+      expect(events).toEqual(['empty']);
+
+      release();
+      await prodCons.waitForEmpty();
+
+      expect(events).toEqual(['empty', 'idle']);
+      expect(prodCons.isIdle()).toBe(true);
+    });
+
+    it('队列空闲时应立即解析', async () => {
+      await expect(prodCons.waitForEmpty()).resolves.toBeUndefined();
+      await expect(prodCons.waitForConsumption()).resolves.toBeUndefined();
+    });
+
+    it('暂停时应继续等待，直到恢复并处理完所有数据项', async () => {
+      const consumed: any[] = [];
+      prodCons.consume(async (data) => {
+        consumed.push(data);
+      });
+      await prodCons.pause();
+      await prodCons.produce(async () => 'a');
+      await prodCons.produce(async () => 'b');
+
+      let resolved = false;
+      const waiting = prodCons.waitForEmpty().then(() => {
+        resolved = true;
+      });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(resolved).toBe(false);
+
+      await prodCons.start();
+      await waiting;
+
+      expect(consumed).toEqual(['a', 'b']);
+    });
+
+    it('清空缓冲区应唤醒等待者', async () => {
+      await prodCons.produce(async () => 'a');
+      const waiting = prodCons.waitForEmpty();
+
+      await prodCons.clear();
+
+      await expect(waiting).resolves.toBeUndefined();
+    });
+
+    it('等待超时或被取消时应拒绝并移除等待者', async () => {
+      await prodCons.produce(async () => 'a');
+      // 等待者结束时会移除取消信号上的监听器，残留的等待者会在下一次空闲时再次移除
+      const timed = new AbortController();
+      const controller = new AbortController();
+      const removals = [vi.spyOn(timed.signal, 'removeEventListener'), vi.spyOn(controller.signal, 'removeEventListener')];
+
+      await expect(prodCons.waitForEmpty({ timeoutMs: 5, signal: timed.signal })).rejects.toThrow('waitForEmpty timed out after 5ms');
+
+      const waiting = prodCons.waitForConsumption({ signal: controller.signal });
+      const reason = new Error('不再等待');
+      controller.abort(reason);
+
+      await expect(waiting).rejects.toBe(reason);
+      await expect(prodCons.waitForEmpty({ signal: controller.signal })).rejects.toBe(reason);
+      expect(removals.map(removal => removal.mock.calls.length)).toEqual([1, 1]);
+
+      const idle = vi.fn();
+      prodCons.on('idle', idle);
+      prodCons.consume(async () => {});
+      await prodCons.waitForConsumption();
+
+      expect(idle).toHaveBeenCalled();
+      expect(removals.map(removal => removal.mock.calls.length)).toEqual([1, 1]);
+    });
+
+    it('销毁时应拒绝等待者，销毁后调用应直接拒绝', async () => {
+      await prodCons.produce(async () => 'a');
+      const waiting = prodCons.waitForEmpty();
+
+      await prodCons.destroy();
+
+      await expect(waiting).rejects.toThrow('ProdConsPQueue has been destroyed');
+      await expect(prodCons.waitForConsumption()).rejects.toThrow('ProdConsPQueue has been destroyed');
+    });
+  });
+
+  describe('关闭测试', () => {
+    it('drain 方式应处理完剩余数据项，并拒绝新的生产', async () => {
+      const consumed: any[] = [];
+      await prodCons.produce(async () => 'a');
+      await prodCons.produce(async () => 'b');
+      prodCons.consume(async (data) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        consumed.push(data);
+      });
+
+      const closing = prodCons.close();
+      expect(prodCons.isClosed()).toBe(true);
+      await expect(prodCons.produce(async () => 'c')).rejects.toBeInstanceOf(QueueClosedError);
+
+      const summary = await closing;
+      expect(consumed).toEqual(['a', 'b']);
+      expect(summary).toEqual({
+        completed: 2,
+        failed: 0,
+        dropped: 0,
+        aborted: 0,
+        rejectedProducers: 0,
+        timedOut: false
+      });
+      expect(prodCons.isIdle()).toBe(true);
+    });
+
+    it('应以 QueueClosedError 拒绝等待槽位的生产者', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      await queue.produce(async () => 'a');
+      const blocked = queue.produce(async () => 'b');
+
+      const summary = await queue.close({ mode: 'abort' });
+
+      await expect(blocked).rejects.toThrow('ProdConsPQueue has been closed');
+      expect(summary.rejectedProducers).toBe(1);
+      expect(summary.dropped).toBe(1);
+      await queue.destroy();
+    });
+
+    it('abort 方式应丢弃缓冲区并中止正在消费的数据项', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 5, concurrency: 1 });
+      let consumeSignal: AbortSignal | undefined;
+      queue.consume((_data, signal) => {
+        consumeSignal = signal;
+        return new Promise(() => {});
+      });
+      const running = await queue.produceTracked(async () => 'a');
+      const buffered = await queue.produceTracked(async () => 'b');
+
+      const summary = await queue.close({ mode: 'abort' });
+
+      expect(summary).toMatchObject({ completed: 0, dropped: 1, aborted: 1, timedOut: false });
+      expect(consumeSignal?.aborted).toBe(true);
+      await expect(running.result).rejects.toBeInstanceOf(QueueClosedError);
+      await expect(buffered.result).rejects.toBeInstanceOf(QueueClosedError);
+      expect(queue.isIdle()).toBe(true);
+      await queue.destroy();
+    });
+
+    it('drain 超时后应中止剩余的数据项', async () => {
+      prodCons.consume(async (data) => data);
+      await prodCons.pause();
+      await prodCons.produce(async () => 'a');
+
+      const summary = await prodCons.close({ timeoutMs: 5 });
+
+      expect(summary).toMatchObject({ completed: 0, dropped: 1, aborted: 0, timedOut: true });
+      expect(prodCons.getPendingJobs()).toBe(0);
+    });
+
+    it('重复调用应返回同一个结果，并触发一次 close 事件', async () => {
+      const events: any[] = [];
+      prodCons.on('close', summary => events.push(summary));
+
+      const first = prodCons.close();
+      const second = prodCons.close({ mode: 'abort' });
+
+      expect(await first).toBe(await second);
+      expect(events).toHaveLength(1);
+    });
+
+    it('关闭完成后异步迭代应结束', async () => {
+      const results: any[] = [];
+      prodCons.consume(async (data) => data);
+      const iterating = (async () => {
+        for await (const result of prodCons) {
+          results.push(result);
+        }
+      })();
+
+      await prodCons.produce(async () => 'a');
+      await prodCons.close();
+      await iterating;
+
+      expect(results).toEqual(['a']);
+    });
+
+    it('销毁时应拒绝等待槽位的生产者，而不是将其放入缓冲区', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      await queue.produce(async () => 'a');
+      const produceFn = vi.fn(async () => 'b');
+      const blocked = queue.produce(produceFn);
+
+      await queue.destroy();
+
+      await expect(blocked).rejects.toThrow('ProdConsPQueue has been destroyed');
+      expect(produceFn).not.toHaveBeenCalled();
+      expect(queue.getPendingJobs()).toBe(0);
+    });
+  });
+
+  describe('错误处理测试', () => {
+    it('内部错误应为可区分的错误类', async () => {
+      const queue = new ProdConsPQueue({ consumeTimeoutMs: 5 });
+      queue.on('error', () => {});
+      queue.consume(() => new Promise(() => {}));
+      const handle = await queue.produceTracked(async () => 'a');
+
+      const timeoutError = await handle.result.catch(error => error);
+      expect(timeoutError).toBeInstanceOf(QueueTimeoutError);
+      expect(timeoutError).toBeInstanceOf(ProdConsError);
+      expect(timeoutError.timeoutMs).toBe(5);
+
+      await queue.destroy();
+      const destroyedError = await queue.produce(async () => 'b').catch(error => error);
+      expect(destroyedError).toBeInstanceOf(QueueDestroyedError);
+      expect(destroyedError.name).toBe('QueueDestroyedError');
+      expect(new QueueClosedError()).toBeInstanceOf(ProdConsError);
+    });
+
+    it('最终消费失败时应触发带有数据项的 error 事件，而不输出日志', async () => {
+      const logger = { warn: vi.fn(), error: vi.fn() };
+      const queue = new ProdConsPQueue({ logger, retry: { maxAttempts: 2 } });
+      const events: any[] = [];
+      queue.on('error', event => events.push(event));
+      const failure = new Error('消费失败');
+      queue.consume(async () => {
+        throw failure;
+      });
+
+      await queue.produce(async () => 'a');
+      await queue.waitForEmpty();
+
+      expect(events).toHaveLength(1);
+      expect(events[0].phase).toBe('consume');
+      expect(events[0].item).toBe('a');
+      expect(events[0].error).toBeInstanceOf(ConsumerError);
+      expect(events[0].error).toMatchObject({ item: 'a', attempts: 2, cause: failure });
+      expect(logger.error).not.toHaveBeenCalled();
+      await queue.destroy();
+    });
+
+    it('没有 error 监听器时应通过 logger 输出', async () => {
+      const logger = { warn: vi.fn(), error: vi.fn() };
+      const queue = new ProdConsPQueue({ logger });
+      queue.consume(async () => {
+        throw new Error('消费失败');
+      });
+
+      await queue.produce(async () => 'a');
+      await queue.waitForEmpty();
+
+      expect(logger.error).toHaveBeenCalledTimes(1);
+      expect(logger.error.mock.calls[0][1]).toBeInstanceOf(ConsumerError);
+      await queue.destroy();
+    });
+
+    it('抛出异常的监听器不应影响状态通知和其他监听器', async () => {
+      const logger = { warn: vi.fn(), error: vi.fn() };
+      const queue = new ProdConsPQueue({ slotAmount: 1, logger });
+      const listenerError = new Error('监听器出错');
+      const blockedStates: boolean[] = [];
+      const errors: any[] = [];
+      queue.on('blocked-state-change', () => {
+        throw listenerError;
+      });
+      queue.on('blocked-state-change', value => blockedStates.push(value));
+      queue.on('error', event => errors.push(event));
+
+      await queue.produce(async () => 'a');
+      queue.consume(async () => {});
+      await queue.waitForEmpty();
+
+      expect(blockedStates).toEqual([true, false]);
+      expect(queue.isBlocked()).toBe(false);
+      expect(errors).toEqual([
+        { error: listenerError, phase: 'listener', event: 'blocked-state-change' },
+        { error: listenerError, phase: 'listener', event: 'blocked-state-change' }
+      ]);
+
+      queue.on('error', () => {
+        throw new Error('error 监听器出错');
+      });
+      await queue.produce(async () => 'b');
+      expect(logger.error).toHaveBeenCalledWith('Error in "error" listener:', expect.any(Error));
+      await queue.destroy();
+    });
+  });
+
+  describe('缓冲区存储测试', () => {
+    it('应只确认被成功消费或离开死信队列的数据项', async () => {
+      const store = new MemoryBufferStore<string>();
+      const queue = new ProdConsPQueue<string, void>({ store });
+      queue.on('error', () => {});
+      await queue.produce(async () => 'ok');
+      await queue.produce(async () => 'bad');
+      await queue.produce(async () => 'stuck');
+      expect(store.load().map(record => record.item)).toEqual(['ok', 'bad', 'stuck']);
+
+      queue.consume(async (data) => {
+        if (data === 'bad') {
+          throw new Error('消费失败');
+        }
+        if (data === 'stuck') {
+          return new Promise<void>(() => {});
+        }
+      });
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect(store.load().map(record => record.item)).toEqual(['bad', 'stuck']);
+      expect(queue.getDeadLetters()).toHaveLength(1);
+
+      queue.drainDeadLetters();
+      expect(store.load().map(record => record.item)).toEqual(['stuck']);
+      await queue.destroy();
+    });
+
+    it('死信队列中的数据项应在重启后重放，重新入队或被丢弃后才确认', async () => {
+      const store = new MemoryBufferStore<string>();
+      const first = new ProdConsPQueue<string, void>({ store, maxDeadLetters: 2 });
+      first.on('error', () => {});
+      first.consume(async () => {
+        throw new Error('消费失败');
+      });
+      for (const item of ['a', 'b', 'c']) {
+        await first.produce(async () => item);
+      }
+      await first.waitForConsumption();
+
+      expect(first.getDeadLetters().map(letter => letter.item)).toEqual(['b', 'c']);
+      expect(store.load().map(record => record.item)).toEqual(['b', 'c']);
+      await first.clear();
+      expect(store.load().map(record => record.item)).toEqual(['b', 'c']);
+
+      first.consume(async () => {});
+      await first.requeueDeadLetters(letter => letter.item === 'b');
+      await first.waitForConsumption();
+      expect(store.load().map(record => record.item)).toEqual(['c']);
+      await first.destroy();
+
+      const second = new ProdConsPQueue<string, void>({ store });
+      const consumed: string[] = [];
+      second.consume(async (data) => {
+        consumed.push(data);
+      });
+      await second.waitForConsumption();
+
+      expect(consumed).toEqual(['c']);
+      expect(store.load()).toEqual([]);
+      await second.destroy();
+    });
+
+    it('创建实例时应重放存储中未确认的数据项', async () => {
+      const store = new MemoryBufferStore<string>();
+      const first = new ProdConsPQueue<string, void>({ store, slotAmount: 2 });
+      await first.produce(async () => 'a');
+      await first.produce(async () => 'b', { priority: 1 });
+      await first.destroy();
+
+      const second = new ProdConsPQueue<string, void>({ store, slotAmount: 2 });
+      expect(second.getPendingJobs()).toBe(2);
+      expect(second.isBlocked()).toBe(true);
+
+      const consumed: string[] = [];
+      second.consume(async (data) => {
+        consumed.push(data);
+      });
+      await second.produce(async () => 'c');
+      await second.waitForEmpty();
+
+      expect(consumed).toEqual(['b', 'a', 'c']);
+      expect(store.load()).toEqual([]);
+      await second.destroy();
+    });
+
+    it('取消和清空的数据项应被确认', async () => {
+      const store = new MemoryBufferStore<string>();
+      const queue = new ProdConsPQueue<string, void>({ store });
+      const handle = await queue.produceTracked(async () => 'a');
+      await queue.produce(async () => 'b');
+
+      handle.cancel();
+      expect(store.load().map(record => record.item)).toEqual(['b']);
+
+      await queue.clear();
+      expect(store.load()).toEqual([]);
+      await queue.destroy();
+    });
+  });
+
+  describe('限流测试', () => {
+    it('生产速率超出限制时生产者应等待，并触发 rate-limited 事件', async () => {
+      const queue = new ProdConsPQueue({ produceRateLimit: { limit: 2, intervalMs: 40 } });
+      const events: any[] = [];
+      queue.on('rate-limited', event => events.push(event));
+
+      const start = Date.now();
+      await queue.produce(async () => 'a');
+      await queue.produce(async () => 'b');
+      expect(queue.getStats().rateLimits.produce).toMatchObject({ available: 0 });
+      await queue.produce(async () => 'c');
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+      expect(events).toHaveLength(1);
+      expect(events[0].side).toBe('produce');
+      expect(events[0].waitMs).toBeGreaterThan(0);
+      expect(queue.getPendingJobs()).toBe(3);
+      await queue.destroy();
+    });
+
+    it('消费速率超出限制时应推迟从缓冲区取出数据项', async () => {
+      const queue = new ProdConsPQueue({
+        concurrency: 5,
+        consumeRateLimit: { limit: 1, intervalMs: 30, strategy: 'sliding-window' }
+      });
+      const events: any[] = [];
+      queue.on('rate-limited', event => events.push(event));
+      const consumed: any[] = [];
+      await queue.produce(async () => 'a');
+      await queue.produce(async () => 'b');
+
+      queue.consume(async (data) => {
+        consumed.push(data);
+      });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(consumed).toEqual(['a']);
+      expect(queue.getPendingJobs()).toBe(1);
+      expect(events).toEqual([{ side: 'consume', waitMs: expect.any(Number) }]);
+      expect(queue.getStats().rateLimits.consume).toMatchObject({ strategy: 'sliding-window', available: 0 });
+
+      await queue.waitForEmpty();
+      expect(consumed).toEqual(['a', 'b']);
+      await queue.destroy();
+    });
+
+    it('运行时调整限流应立即生效', async () => {
+      const queue = new ProdConsPQueue({ produceRateLimit: { limit: 1, intervalMs: 60000 } });
+      await queue.produce(async () => 'a');
+      const waiting = queue.produce(async () => 'b');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(queue.getPendingJobs()).toBe(1);
+
+      queue.setRateLimit('produce', null);
+      await waiting;
+
+      expect(queue.getPendingJobs()).toBe(2);
+      expect(queue.getStats().rateLimits).toEqual({ produce: null, consume: null });
+      await queue.destroy();
+    });
+
+    it('生产限流耗尽时 hasFreeSlot 应等待，且不占用许可', async () => {
+      const queue = new ProdConsPQueue({ produceRateLimit: { limit: 1, intervalMs: 60000 } });
+
+      await expect(queue.hasFreeSlot()).resolves.toBe(true);
+      expect(queue.getStats().rateLimits.produce?.available).toBe(1);
+      await queue.produce(async () => 'a');
+
+      await expect(queue.hasFreeSlot({ timeoutMs: 20 })).rejects.toBeInstanceOf(QueueTimeoutError);
+      let ready = false;
+      const waiting = queue.hasFreeSlot().then(() => {
+        ready = true;
+      });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(ready).toBe(false);
+
+      queue.setRateLimit('produce', null);
+      await waiting;
+      expect(ready).toBe(true);
+      await queue.destroy();
+    });
+
+    it('fromAsyncIterable 不应提前拉取超出生产限流的值', async () => {
+      const queue = new ProdConsPQueue({ produceRateLimit: { limit: 1, intervalMs: 60000 } });
+      let pulled = 0;
+      async function* source() {
+        for (let i = 0; i < 3; i++) {
+          pulled++;
+          yield i;
+        }
+      }
+
+      const feeding = queue.fromAsyncIterable(source());
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect(pulled).toBe(1);
+      expect(queue.getPendingJobs()).toBe(1);
+      await queue.destroy();
+      await expect(feeding).rejects.toBeInstanceOf(QueueDestroyedError);
+    });
+
+    it('限流等待中的生产者应在销毁时被拒绝', async () => {
+      const queue = new ProdConsPQueue({ produceRateLimit: { limit: 1, intervalMs: 60000 } });
+      await queue.produce(async () => 'a');
+      const produceFn = vi.fn(async () => 'b');
+      const waiting = queue.produce(produceFn);
+
+      await queue.destroy();
+
+      await expect(waiting).rejects.toBeInstanceOf(QueueDestroyedError);
+      expect(produceFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('并发控制测试', () => {
+    it('调高并发数时应立即调度更多数据项', async () => {
+      const queue = new ProdConsPQueue({ concurrency: 1 });
+      const events: any[] = [];
+      queue.on('concurrency-change', event => events.push(event));
+      let running = 0;
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      queue.consume(async () => {
+        running++;
+        await gate;
+      });
+      for (let i = 0; i < 3; i++) {
+        await queue.produce(async () => i);
+      }
+      expect(running).toBe(1);
+
+      queue.setConcurrency(3);
+
+      expect(running).toBe(3);
+      expect(queue.getConcurrency()).toBe(3);
+      expect(events).toEqual([{ previous: 1, current: 3, reason: 'manual' }]);
+      release();
+      await queue.waitForEmpty();
+      await queue.destroy();
+    });
+
+    it('调低并发数时不应中断正在消费的数据项', async () => {
+      const queue = new ProdConsPQueue({ concurrency: 2 });
+      let running = 0;
+      let maxRunningAfterChange = 0;
+      let changed = false;
+      queue.consume(async () => {
+        running++;
+        if (changed) {
+          maxRunningAfterChange = Math.max(maxRunningAfterChange, running);
+        }
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+      });
+      for (let i = 0; i < 5; i++) {
+        await queue.produce(async () => i);
+      }
+
+      queue.setConcurrency(1);
+      changed = true;
+      expect(running).toBe(2);
+      await queue.waitForEmpty();
+
+      expect(maxRunningAfterChange).toBe(1);
+      expect(queue.getStats().concurrency).toBe(1);
+      await queue.destroy();
+    });
+
+    it('自适应控制应根据错误率调整并发数', async () => {
+      const queue = new ProdConsPQueue({
+        concurrency: 8,
+        retry: { maxAttempts: 1 },
+        adaptiveConcurrency: { min: 2, max: 6, windowSize: 2, maxErrorRate: 0 }
+      });
+      queue.on('error', () => {});
+      expect(queue.getConcurrency()).toBe(6);
+
+      const events: any[] = [];
+      queue.on('concurrency-change', event => events.push(event));
+      let fail = true;
+      queue.consume(async () => {
+        if (fail) {
+          throw new Error('下游过载');
+        }
+      });
+      await queue.produce(async () => 'a');
+      await queue.produce(async () => 'b');
+      await queue.waitForEmpty();
+      expect(events).toEqual([{ previous: 6, current: 3, reason: 'adaptive' }]);
+
+      fail = false;
+      await queue.produce(async () => 'c');
+      await queue.produce(async () => 'd');
+      await queue.waitForEmpty();
+      expect(queue.getConcurrency()).toBe(4);
+      await queue.destroy();
+    });
+  });
+
+  describe('指标测试', () => {
+    it('应统计生产、消费、失败和重试的累计次数', async () => {
+      const queue = new ProdConsPQueue({ retry: { maxAttempts: 2 } });
+      queue.on('error', () => {});
+      queue.consume(async (data) => {
+        if (data === 'bad') {
+          throw new Error('消费失败');
+        }
+      });
+      await queue.produce(async () => 'a');
+      await queue.produce(async () => 'bad');
+      await queue.produce(async () => 'b');
+      await queue.waitForEmpty();
+
+      const metrics = queue.getMetrics();
+      expect(metrics).toMatchObject({ produced: 3, consumed: 2, failed: 1, retried: 1, timedOut: 0 });
+      expect(metrics.consumeDurationMs.count).toBe(4);
+      expect(metrics.queueLatencyMs.count).toBe(3);
+      expect(metrics.throughput[1]).toMatchObject({ windowMs: 10000, produced: 0.3, consumed: 0.2 });
+      await queue.destroy();
+    });
+
+    it('应统计生产者等待槽位的时长', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      await queue.produce(async () => 'a');
+      const blocked = queue.produce(async () => 'b');
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      queue.consume(async () => {});
+      await blocked;
+      await queue.waitForEmpty();
+
+      const metrics = queue.getMetrics();
+      expect(metrics.producerWaits).toBe(1);
+      expect(metrics.producerWaitMs).toBeGreaterThanOrEqual(15);
+      expect(metrics.queueLatencyMs.max).toBeGreaterThanOrEqual(15);
+      await queue.destroy();
+    });
+
+    it('resetMetrics 应将指标归零', async () => {
+      prodCons.consume(async () => {});
+      await prodCons.produce(async () => 'a');
+      await prodCons.waitForEmpty();
+      expect(prodCons.getMetrics().consumed).toBe(1);
+
+      prodCons.resetMetrics();
+
+      const metrics = prodCons.getMetrics();
+      expect(metrics).toMatchObject({ produced: 0, consumed: 0, producerWaits: 0 });
+      expect(metrics.consumeDurationMs.count).toBe(0);
+      expect(metrics.throughput.every(window => window.produced === 0)).toBe(true);
+    });
+  });
+
+  describe('生命周期钩子测试', () => {
+    it('应按生命周期顺序调用钩子，并把上下文传给消费函数', async () => {
+      const calls: string[] = [];
+      const queue = new ProdConsPQueue<string, string>({
+        hooks: [{
+          beforeProduce: context => {
+            calls.push(`beforeProduce:${context.item}`);
+            context.values.tenant = 'acme';
+          },
+          afterProduce: context => calls.push(`afterProduce:${context.item}`),
+          beforeConsume: context => calls.push(`beforeConsume:${context.item}:${context.attempt}`),
+          afterConsume: (context, result) => calls.push(`afterConsume:${result}`)
+        }]
+      });
+      const received: unknown[] = [];
+      queue.consume(async (data, _signal, context) => {
+        received.push(context.values.tenant, context.values.requestId, context.stage);
+        return data.toUpperCase();
+      });
+
+      await queue.produce(async () => 'a', { context: { requestId: 'r1' } });
+      await queue.waitForConsumption();
+
+      expect(calls).toEqual([
+        'beforeProduce:undefined',
+        'afterProduce:a',
+        'beforeConsume:a:1',
+        'afterConsume:A'
+      ]);
+      expect(received).toEqual(['acme', 'r1', 'consume']);
+      await queue.destroy();
+    });
+
+    it('每次失败的消费尝试都应调用 onError', async () => {
+      const errors: Array<[string, number]> = [];
+      const queue = new ProdConsPQueue({ retry: { maxAttempts: 2 } });
+      queue.on('error', () => {});
+      queue.addHooks({
+        onError: context => errors.push([context.stage, context.attempt])
+      });
+      queue.consume(async () => {
+        throw new Error('消费失败');
+      });
+
+      await expect(queue.produce(async () => {
+        throw new Error('生产失败');
+      })).rejects.toThrow('生产失败');
+      await queue.produce(async () => 'a');
+      await queue.waitForConsumption();
+
+      expect(errors).toEqual([['produce', 0], ['consume', 1], ['consume', 2]]);
+      await queue.destroy();
+    });
+
+    it('批量模式下应把各数据项的上下文传给消费函数', async () => {
+      const queue = new ProdConsPQueue<number>();
+      const ids: number[] = [];
+      queue.consumeBatch(async (_items, _signal, contexts) => {
+        ids.push(...contexts.map(context => context.values.id as number));
+      }, { maxSize: 2 });
+
+      await queue.produce(async () => 1, { context: { id: 10 } });
+      await queue.produce(async () => 2, { context: { id: 20 } });
+      await queue.waitForConsumption();
+
+      expect(ids).toEqual([10, 20]);
+      await queue.destroy();
+    });
+
+    it('钩子抛出的异常应通过 error 事件报告，且不影响数据项的处理', async () => {
+      const queue = new ProdConsPQueue();
+      const errors: QueueErrorEvent[] = [];
+      queue.on('error', event => errors.push(event));
+      const hooks = {
+        afterProduce: () => {
+          throw new Error('钩子出错');
+        }
+      };
+      queue.addHooks(hooks);
+      const consumed = vi.fn(async () => {});
+      queue.consume(consumed);
+
+      await queue.produce(async () => 'a');
+      queue.removeHooks(hooks);
+      await queue.produce(async () => 'b');
+      await queue.waitForConsumption();
+
+      expect(consumed).toHaveBeenCalledTimes(2);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ phase: 'hook', hook: 'afterProduce', item: 'a' });
+      await queue.destroy();
+    });
+
+    it('上下文应随数据项保存在存储中', async () => {
+      const store = new MemoryBufferStore();
+      const first = new ProdConsPQueue({ store });
+      await first.produce(async () => 'a', { context: { traceparent: 'x' } });
+      await first.destroy();
+
+      const second = new ProdConsPQueue({ store });
+      const values: unknown[] = [];
+      second.consume(async (_data, _signal, context) => {
+        values.push(context.values.traceparent);
+      });
+      await second.waitForConsumption();
+
+      expect(values).toEqual(['x']);
+      await second.destroy();
+    });
+
+    it('TracingHooks 应将消费 span 关联到生产 span 和上游 trace', async () => {
+      const recorder = new InMemorySpanRecorder();
+      const tracing = new TracingHooks(recorder);
+      const queue = new ProdConsPQueue({ hooks: [tracing] });
+      const upstream = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+      let active: Span | undefined;
+      queue.consume(async (_data, _signal, context) => {
+        active = tracing.getSpan(context);
+      });
+
+      await queue.produce(async () => 'a', { context: { traceparent: upstream } });
+      await queue.waitForConsumption();
+
+      const [produce, consume] = recorder.getFinishedSpans();
+      expect(produce).toMatchObject({
+        name: 'prod-cons-pqueue produce',
+        kind: 'producer',
+        traceId: '0af7651916cd43dd8448eb211c80319c',
+        parentSpanId: 'b7ad6b7169203331',
+        status: { code: 'ok' }
+      });
+      expect(consume).toMatchObject({
+        name: 'prod-cons-pqueue consume',
+        kind: 'consumer',
+        traceId: produce.traceId,
+        parentSpanId: produce.spanId,
+        attributes: { 'messaging.attempt': 1 },
+        status: { code: 'ok' }
+      });
+      expect(active?.spanContext().spanId).toBe(consume.spanId);
+      await queue.destroy();
+    });
+  });
+
+  describe('溢出策略测试', () => {
+    it('reject 策略应在缓冲区已满时以 QueueOverflowError 拒绝生产者', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1, overflow: 'reject' });
+      await queue.produce(async () => 'a');
+
+      await expect(queue.produce(async () => 'b')).rejects.toBeInstanceOf(QueueOverflowError);
+      expect(queue.getPendingJobs()).toBe(1);
+      expect(queue.getStats().overflow).toEqual({ dropped: 0, coalesced: 0, rejected: 1 });
+      await queue.destroy();
+    });
+
+    it('drop-newest 策略应丢弃新生产的数据项', async () => {
+      const queue = new ProdConsPQueue<string>({ slotAmount: 1, overflow: 'drop-newest' });
+      const dropped: DroppedEvent[] = [];
+      queue.on('dropped', event => dropped.push(event));
+      await queue.produce(async () => 'a');
+
+      const handle = await queue.produceTracked(async () => 'b');
+
+      await expect(handle.result).rejects.toBeInstanceOf(QueueOverflowError);
+      expect(dropped).toEqual([{ item: 'b', reason: 'drop-newest' }]);
+      expect(queue.getStats().overflow.dropped).toBe(1);
+      const consumed: string[] = [];
+      queue.consume(async data => {
+        consumed.push(data);
+      });
+      await queue.waitForConsumption();
+      expect(consumed).toEqual(['a']);
+      await queue.destroy();
+    });
+
+    it('drop-oldest 策略应丢弃缓冲区中最早放入的数据项', async () => {
+      const queue = new ProdConsPQueue<string>({ slotAmount: 2, overflow: 'drop-oldest' });
+      const dropped: DroppedEvent[] = [];
+      queue.on('dropped', event => dropped.push(event));
+      await queue.produce(async () => 'a');
+      await queue.produce(async () => 'b', { priority: 1 });
+      await queue.produce(async () => 'c');
+
+      expect(dropped).toEqual([{ item: 'a', reason: 'drop-oldest' }]);
+      const consumed: string[] = [];
+      queue.consume(async data => {
+        consumed.push(data);
+      });
+      await queue.waitForConsumption();
+      expect(consumed).toEqual(['b', 'c']);
+      await queue.destroy();
+    });
+
+    it('没有可丢弃的缓冲数据项时 drop-oldest 应丢弃新数据项', async () => {
+      const queue = new ProdConsPQueue<string>({ slotAmount: 1, overflow: 'drop-oldest' });
+      const dropped: DroppedEvent[] = [];
+      queue.on('dropped', event => dropped.push(event));
+      let release!: () => void;
+      queue.consume(() => new Promise<void>(resolve => {
+        release = resolve;
+      }));
+      await queue.produce(async () => 'a');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      await queue.produce(async () => 'b');
+
+      expect(dropped).toEqual([{ item: 'b', reason: 'drop-newest' }]);
+      release();
+      await queue.destroy();
+    });
+
+    it('coalesce 策略应替换键相同的数据项', async () => {
+      const queue = new ProdConsPQueue<{ key: string; value: number }>({
+        slotAmount: 2,
+        overflow: { coalesce: item => item.key }
+      });
+      const dropped: DroppedEvent[] = [];
+      queue.on('dropped', event => dropped.push(event));
+      await queue.produce(async () => ({ key: 'x', value: 1 }));
+      await queue.produce(async () => ({ key: 'y', value: 1 }));
+      await queue.produce(async () => ({ key: 'y', value: 2 }));
+      await queue.produce(async () => ({ key: 'z', value: 1 }));
+
+      expect(dropped).toEqual([
+        { item: { key: 'y', value: 1 }, reason: 'coalesce' },
+        { item: { key: 'x', value: 1 }, reason: 'drop-oldest' }
+      ]);
+      expect(queue.getStats().overflow).toEqual({ dropped: 1, coalesced: 1, rejected: 0 });
+      const consumed: unknown[] = [];
+      queue.consume(async data => {
+        consumed.push(data);
+      });
+      await queue.waitForConsumption();
+      expect(consumed).toEqual([{ key: 'y', value: 2 }, { key: 'z', value: 1 }]);
+      await queue.destroy();
+    });
+  });
+
+  describe('生产者超时与取消测试', () => {
+    it('hasFreeSlot 超时后应拒绝并移除等待', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      await queue.produce(async () => 'a');
+
+      const error = await queue.hasFreeSlot({ timeoutMs: 20 }).catch(e => e);
+      expect(error).toBeInstanceOf(QueueTimeoutError);
+      expect(error.timeoutMs).toBe(20);
+
+      const waiting = queue.produce(async () => 'b');
+      queue.consume(async () => {});
+      await waiting;
+      await queue.waitForConsumption();
+      expect(queue.getMetrics().produced).toBe(2);
+      await queue.destroy();
+    });
+
+    it('hasFreeSlot 的 signal 被中止时应以中止原因拒绝', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      await queue.produce(async () => 'a');
+      const controller = new AbortController();
+
+      const waiting = queue.hasFreeSlot({ signal: controller.signal });
+      controller.abort(new Error('不等了'));
+
+      await expect(waiting).rejects.toThrow('不等了');
+      await expect(queue.hasFreeSlot({ signal: controller.signal })).rejects.toThrow('不等了');
+      await queue.destroy();
+    });
+
+    it('produce 等待槽位超时后不应调用生产函数，被释放的槽位应留给其他生产者', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      await queue.produce(async () => 'a');
+      const fn = vi.fn(async () => 'b');
+
+      await expect(queue.produce(fn, { timeoutMs: 20 })).rejects.toBeInstanceOf(QueueTimeoutError);
+      const next = queue.produce(async () => 'c');
+      const consumed: string[] = [];
+      queue.consume(async data => {
+        consumed.push(data);
+      });
+      await next;
+      await queue.waitForConsumption();
+
+      expect(fn).not.toHaveBeenCalled();
+      expect(consumed).toEqual(['a', 'c']);
+      await queue.destroy();
+    });
+
+    it('produce 的 signal 应能取消等待和进行中的生产函数', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      const controller = new AbortController();
+      let received: AbortSignal | undefined;
+      const producing = queue.produce(signal => {
+        received = signal;
+        return new Promise<string>(() => {});
+      }, { signal: controller.signal });
+
+      controller.abort(new Error('取消生产'));
+
+      await expect(producing).rejects.toThrow('取消生产');
+      expect(received?.aborted).toBe(true);
+      expect(queue.getPendingJobs()).toBe(0);
+      await queue.destroy();
+    });
+
+    it('tryProduce 应在缓冲区已满时立即返回 false', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+      const fn = vi.fn(async () => 'b');
+
+      await expect(queue.tryProduce(async () => 'a')).resolves.toBe(true);
+      await expect(queue.tryProduce(fn)).resolves.toBe(false);
+
+      expect(fn).not.toHaveBeenCalled();
+      expect(queue.getPendingJobs()).toBe(1);
+      await queue.destroy();
+    });
+  });
+
+  describe('槽位预留测试', () => {
+    it('并发的生产者不应超出槽位数量', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 2 });
+      const slowProduce = (value: string) => async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return value;
+      };
+
+      const producing = ['a', 'b', 'c', 'd'].map(value => queue.produce(slowProduce(value)));
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(queue.getStats().reservedSlots).toBe(2);
+      expect(queue.getFreeSlotAmount()).toBe(0);
+      expect(queue.isBlocked()).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(queue.getPendingJobs()).toBe(2);
+      expect(queue.getStats().reservedSlots).toBe(0);
+
+      queue.consume(async () => {});
+      await Promise.all(producing);
+      await queue.waitForConsumption();
+      expect(queue.getMetrics().consumed).toBe(4);
+      await queue.destroy();
+    });
+
+    it('生产函数失败时应归还预留的槽位', async () => {
+      const queue = new ProdConsPQueue({ slotAmount: 1 });
+
+      await expect(queue.produce(async () => {
+        throw new Error('生产失败');
+      })).rejects.toThrow('生产失败');
+
+      expect(queue.getStats().reservedSlots).toBe(0);
+      expect(queue.getFreeSlotAmount()).toBe(1);
+      await queue.produce(async () => 'a');
+      expect(queue.getPendingJobs()).toBe(1);
+      await queue.destroy();
+    });
+
+    it('等待的生产者应按到达顺序获得槽位，后来者不能插队', async () => {
+      const queue = new ProdConsPQueue<string>({ slotAmount: 1 });
+      const handle = await queue.produceTracked(async () => 'first');
+      const order: string[] = [];
+      const produceInOrder = (value: string) => queue.produce(async () => {
+        order.push(value);
+        return value;
+      });
+      const producing = ['a', 'b', 'c'].map(produceInOrder);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // 释放槽位的同一时刻，它已经被最早等待的生产者预留
+      handle.cancel();
+      expect(queue.getStats().reservedSlots).toBe(1);
+      await expect(queue.tryProduce(async () => 'x')).resolves.toBe(false);
+      producing.push(produceInOrder('late'));
+
+      const consumed: string[] = [];
+      queue.consume(async data => {
+        consumed.push(data);
+      });
+      await Promise.all(producing);
+      await queue.waitForConsumption();
+
+      expect(order).toEqual(['a', 'b', 'c', 'late']);
+      expect(consumed).toEqual(['a', 'b', 'c', 'late']);
+      await queue.destroy();
+    });
+  });
+
+  describe('权重测试', () => {
+    it('容量应按权重计算，生产者等到有足够的空闲槽位', async () => {
+      const queue = new ProdConsPQueue<{ id: string, size: number }>({
+        slotAmount: 5,
+        weight: item => item.size
+      });
+      const freeSlots: number[] = [];
+      queue.on('free-slot-amount-change', value => freeSlots.push(value));
+
+      await queue.produce(async () => ({ id: 'a', size: 3 }));
+      expect(queue.getFreeSlotAmount()).toBe(2);
+      expect(queue.getStats().usedSlots).toBe(3);
+
+      let producedLarge = false;
+      const producing = queue.produce(async () => ({ id: 'b', size: 4 })).then(() => {
+        producedLarge = true;
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(producedLarge).toBe(false);
+      expect(queue.getPendingJobs()).toBe(1);
+
+      queue.consume(async () => {});
+      await producing;
+      await queue.waitForConsumption();
+
+      expect(producedLarge).toBe(true);
+      expect(freeSlots).toContain(2);
+      expect(freeSlots).toContain(1);
+      expect(queue.getStats().usedSlots).toBe(0);
+      expect(queue.getFreeSlotAmount()).toBe(5);
+      await queue.destroy();
+    });
+
+    it('超过槽位总数的数据项应在缓冲区空闲时放入', async () => {
+      const queue = new ProdConsPQueue<number>({ slotAmount: 2, weight: item => item });
+
+      await queue.produce(async () => 5);
+      expect(queue.getPendingJobs()).toBe(1);
+      expect(queue.isBlocked()).toBe(true);
+      expect(queue.getFreeSlotAmount()).toBe(0);
+      await queue.destroy();
+    });
+
+    it('权重较小的生产者不应插队到等待中的大数据项之前', async () => {
+      const queue = new ProdConsPQueue<number>({ slotAmount: 4, weight: item => item });
+      const handle = await queue.produceTracked(async () => 3);
+      const order: number[] = [];
+      const produceInOrder = (value: number) => queue.produce(async () => value).then(() => {
+        order.push(value);
+      });
+
+      const producing = [produceInOrder(4)];
+      await new Promise(resolve => setTimeout(resolve, 0));
+      producing.push(produceInOrder(1));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(order).toEqual([]);
+
+      handle.cancel();
+      queue.consume(async () => {});
+      await Promise.all(producing);
+      expect(order).toEqual([4, 1]);
+      await queue.destroy();
+    });
+
+    it('drop-oldest 应丢弃足够多的旧数据项', async () => {
+      const queue = new ProdConsPQueue<number>({
+        slotAmount: 4,
+        weight: item => item,
+        overflow: 'drop-oldest'
+      });
+      const dropped: number[] = [];
+      queue.on('dropped', event => dropped.push(event.item));
+
+      await queue.produce(async () => 1);
+      await queue.produce(async () => 1);
+      await queue.produce(async () => 2);
+      await queue.produce(async () => 3);
+
+      expect(dropped).toEqual([1, 1, 2]);
+      expect(queue.getPendingJobs()).toBe(1);
+      expect(queue.getStats().usedSlots).toBe(3);
+      await queue.destroy();
+    });
+  });
+
+  describe('分区键测试', () => {
+    it('同一分区的数据项应按顺序依次消费，不同分区并发消费', async () => {
+      const queue = new ProdConsPQueue<{ key: string, value: number }>({ slotAmount: 10, concurrency: 4 });
+      const running = new Map<string, number>();
+      const consumed: Record<string, number[]> = { a: [], b: [] };
+      let maxRunning = 0;
+      let overlapped = false;
+
+      for (let value = 1; value <= 3; value++) {
+        await queue.produce(async () => ({ key: 'a', value }), { partitionKey: 'a' });
+        await queue.produce(async () => ({ key: 'b', value }), { partitionKey: 'b' });
+      }
+      expect(queue.getStats().pendingByPartition).toEqual({ a: 3, b: 3 });
+
+      queue.consume(async ({ key, value }) => {
+        const count = (running.get(key) ?? 0) + 1;
+        overlapped ||= count > 1;
+        running.set(key, count);
+        maxRunning = Math.max(maxRunning, [...running.values()].reduce((sum, n) => sum + n, 0));
+        await new Promise(resolve => setTimeout(resolve, 5));
+        consumed[key].push(value);
+        running.set(key, count - 1);
+      });
+      await queue.waitForConsumption();
+
+      expect(overlapped).toBe(false);
+      expect(maxRunning).toBe(2);
+      expect(consumed).toEqual({ a: [1, 2, 3], b: [1, 2, 3] });
+      expect(queue.getStats().pendingByPartition).toEqual({});
+      await queue.destroy();
+    });
+
+    it('分区内的顺序不受优先级影响，其他数据项可以越过被占用的分区', async () => {
+      const queue = new ProdConsPQueue<string>({ slotAmount: 10, concurrency: 1 });
+      const consumed: string[] = [];
+
+      await queue.produce(async () => 'a1', { partitionKey: 'a' });
+      await queue.produce(async () => 'a2', { partitionKey: 'a', priority: 10 });
+      await queue.produce(async () => 'x', { priority: 5 });
+      queue.consume(async data => {
+        consumed.push(data);
+      });
+      await queue.waitForConsumption();
+
+      expect(consumed).toEqual(['x', 'a1', 'a2']);
+      await queue.destroy();
+    });
+
+    it('取消同一分区中等待的数据项不应释放正在消费的分区', async () => {
+      const queue = new ProdConsPQueue<string>({ slotAmount: 10, concurrency: 3 });
+      const started: string[] = [];
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      queue.consume(async data => {
+        started.push(data);
+        if (data === 'a1') await gate;
+      });
+
+      await queue.produce(async () => 'a1', { partitionKey: 'a' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const a2 = await queue.produceTracked(async () => 'a2', { partitionKey: 'a' });
+      await queue.produce(async () => 'a3', { partitionKey: 'a' });
+      expect(a2.cancel()).toBe(true);
+      await expect(a2.result).rejects.toBeInstanceOf(QueueCancelledError);
+      await queue.produce(async () => 'b1', { partitionKey: 'b' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect(started).toEqual(['a1', 'b1']);
+      release();
+      await queue.waitForConsumption();
+      expect(started).toEqual(['a1', 'b1', 'a3']);
+      await queue.destroy();
+    });
+
+    it('批量模式下同一分区在一批中最多出现一次', async () => {
+      const queue = new ProdConsPQueue<string>({ slotAmount: 10 });
+      const batches: string[][] = [];
+
+      await queue.produce(async () => 'a1', { partitionKey: 'a' });
+      await queue.produce(async () => 'a2', { partitionKey: 'a' });
+      await queue.produce(async () => 'b1', { partitionKey: 'b' });
+      queue.consumeBatch(async items => {
+        batches.push(items);
+      }, { maxSize: 10, maxWaitMs: 0 });
+      await queue.waitForConsumption();
+
+      expect(batches).toEqual([['a1', 'b1'], ['a2']]);
+      await queue.destroy();
+    });
+  });
+
+  describe('消费者组测试', () => {
+    it('competing 模式下应按权重分配数据项', async () => {
+      const queue = new ProdConsPQueue<number>({ slotAmount: 20 });
+      const received: Record<string, number[]> = { heavy: [], light: [] };
+
+      queue.consumeGroup('heavy', async item => {
+        received.heavy.push(item);
+      }, { concurrency: 4, weight: 3 });
+      queue.consumeGroup('light', async item => {
+        received.light.push(item);
+      }, { concurrency: 4, weight: 1 });
+      for (let i = 0; i < 8; i++) {
+        await queue.produce(async () => i);
+      }
+      await queue.waitForConsumption();
+
+      expect(received.heavy).toHaveLength(6);
+      expect(received.light).toHaveLength(2);
+      expect([...received.heavy, ...received.light].sort()).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+      expect(queue.getStats().groups.heavy).toMatchObject({ consumed: 6, weight: 3, running: 0 });
+      await queue.destroy();
+    });
+
+    it('broadcast 模式下每个组应有自己的上下文和完整的消费 span', async () => {
+      const recorder = new InMemorySpanRecorder();
+      const queue = new ProdConsPQueue<number>({
+        consumerGroupMode: 'broadcast',
+        retry: { maxAttempts: 2 },
+        hooks: [new TracingHooks(recorder)]
+      });
+      const seen: Array<[string, number]> = [];
+      queue.consumeGroup('index', async (_item, _signal, context) => {
+        seen.push(['index', context.attempt]);
+      });
+      queue.consumeGroup('audit', async (_item, _signal, context) => {
+        seen.push(['audit', context.attempt]);
+        if (context.attempt === 1) {
+          throw new Error('暂时失败');
+        }
+      });
+
+      await queue.produce(async () => 1);
+      await queue.waitForConsumption();
+
+      expect(seen).toEqual(expect.arrayContaining([['index', 1], ['audit', 1], ['audit', 2]]));
+      const consumeSpans = recorder.getSpans().filter(span => span.kind === 'consumer');
+      expect(consumeSpans).toHaveLength(3);
+      expect(consumeSpans.every(span => span.endTime !== undefined)).toBe(true);
+      expect(consumeSpans.map(span => span.status.code).sort()).toEqual(['error', 'ok', 'ok']);
+      await queue.destroy();
+    });
+
+    it('暂停期间注册消费者组不应恢复消费', async () => {
+      const queue = new ProdConsPQueue<number>();
+      const received: number[] = [];
+      await queue.pause();
+      await queue.produce(async () => 1);
+
+      queue.consumeGroup('index', async item => {
+        received.push(item);
+      });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(received).toEqual([]);
+      expect(queue.getStats()).toMatchObject({ isPaused: true, pendingJobs: 1, runningJobs: 0 });
+
+      await queue.start();
+      await queue.waitForConsumption();
+      expect(received).toEqual([1]);
+      await queue.destroy();
+    });
+
+    it('broadcast 模式下每个组都应收到每个数据项，所有组结束后才释放槽位', async () => {
+      const queue = new ProdConsPQueue<number, string>({ slotAmount: 2, consumerGroupMode: 'broadcast' });
+      const received: Record<string, number[]> = { index: [], audit: [] };
+      let releaseAudit!: () => void;
+      const auditGate = new Promise<void>(resolve => {
+        releaseAudit = resolve;
+      });
+
+      queue.consumeGroup('index', async item => {
+        received.index.push(item);
+        return `index ${item}`;
+      });
+      queue.consumeGroup('audit', async item => {
+        await auditGate;
+        received.audit.push(item);
+        return `audit ${item}`;
+      }, { concurrency: 2 });
+
+      const handle = await queue.produceTracked(async () => 1);
+      await queue.produce(async () => 2);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(received.index).toEqual([1, 2]);
+      expect(queue.getFreeSlotAmount()).toBe(0);
+      expect(queue.getStats().groups.index.consumed).toBe(2);
+      expect(queue.getStats().groups.audit.running).toBe(2);
+
+      releaseAudit();
+      await expect(handle.result).resolves.toBe('audit 1');
+      await queue.waitForConsumption();
+      expect(received.audit).toEqual([1, 2]);
+      expect(queue.getFreeSlotAmount()).toBe(2);
+      expect(queue.getMetrics().consumed).toBe(2);
+      await queue.destroy();
+    });
+
+    it('broadcast 模式下暂停的组应积压数据项，恢复后继续处理', async () => {
+      const queue = new ProdConsPQueue<number>({ slotAmount: 5, consumerGroupMode: 'broadcast' });
+      const received: Record<string, number[]> = { fast: [], slow: [] };
+
+      queue.consumeGroup('fast', async item => {
+        received.fast.push(item);
+      });
+      queue.consumeGroup('slow', async item => {
+        received.slow.push(item);
+      });
+      queue.pauseGroup('slow');
+
+      for (let i = 1; i <= 3; i++) {
+        await queue.produce(async () => i);
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(received).toEqual({ fast: [1, 2, 3], slow: [] });
+      expect(queue.getStats().groups.slow).toMatchObject({ isPaused: true, backlog: 3 });
+      expect(queue.getFreeSlotAmount()).toBe(2);
+
+      queue.resumeGroup('slow');
+      await queue.waitForConsumption();
+      expect(received.slow).toEqual([1, 2, 3]);
+      expect(queue.getFreeSlotAmount()).toBe(5);
+      await queue.destroy();
+    });
+
+    it('broadcast 模式下任一组耗尽重试次数时数据项应进入死信队列', async () => {
+      const queue = new ProdConsPQueue<number>({ consumerGroupMode: 'broadcast' });
+
+      queue.consumeGroup('ok', async () => {});
+      queue.consumeGroup('broken', async () => {
+        throw new Error('写入失败');
+      });
+      queue.on('error', () => {});
+      const handle = await queue.produceTracked(async () => 1);
+
+      await expect(handle.result).rejects.toThrow('写入失败');
+      await queue.waitForConsumption();
+      expect(queue.getDeadLetters()).toHaveLength(1);
+      expect(queue.getStats().groups).toMatchObject({ ok: { consumed: 1 }, broken: { failed: 1 } });
+      await queue.destroy();
+    });
+
+    it('移除组后尚未开始的数据项不再等待该组，consume 应替换所有消费者组', async () => {
+      const queue = new ProdConsPQueue<number>({ consumerGroupMode: 'broadcast' });
+      const consumed: number[] = [];
+
+      queue.consumeGroup('active', async () => {});
+      queue.consumeGroup('paused', async () => {});
+      queue.pauseGroup('paused');
+      const handle = await queue.produceTracked(async () => 1);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(queue.getStats().groups.paused.backlog).toBe(1);
+      expect(queue.getStats().runningJobs).toBe(1);
+
+      expect(queue.removeConsumerGroup('paused')).toBe(true);
+      expect(queue.removeConsumerGroup('paused')).toBe(false);
+      await handle.result;
+      expect(queue.isIdle()).toBe(true);
+
+      queue.consume(async item => {
+        consumed.push(item);
+      });
+      expect(queue.getStats().groups).toEqual({});
+      await queue.produce(async () => 2);
+      await queue.waitForConsumption();
+      expect(consumed).toEqual([2]);
+      await queue.destroy();
+    });
+  });
+
+  describe('去重测试', () => {
+    type Job = { id: string, version: number };
+
+    it('skip 策略应跳过键重复的数据项，句柄跟随已有数据项的结果', async () => {
+      const queue = new ProdConsPQueue<Job, number>({ dedupeKey: job => job.id });
+      const events: DeduplicatedEvent<Job>[] = [];
+      queue.on('deduplicated', event => events.push(event));
+
+      const first = await queue.produceTracked(async () => ({ id: 'a', version: 1 }));
+      const second = await queue.produceTracked(async () => ({ id: 'a', version: 2 }));
+      await queue.produce(async () => ({ id: 'b', version: 1 }));
+
+      expect(queue.getPendingJobs()).toBe(2);
+      expect(queue.getFreeSlotAmount()).toBe(8);
+      expect(second.cancel()).toBe(false);
+      expect(events).toEqual([{ item: { id: 'a', version: 2 }, key: 'a', action: 'skip' }]);
+
+      queue.consume(async job => job.version);
+      await expect(first.result).resolves.toBe(1);
+      await expect(second.result).resolves.toBe(1);
+      expect(queue.getStats().deduplicated).toEqual({ skipped: 1, replaced: 0, merged: 0 });
+      await queue.destroy();
+    });
+
+    it('正在消费的数据项同样参与去重', async () => {
+      const queue = new ProdConsPQueue<Job>({ dedupeKey: job => job.id });
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      queue.consume(async () => {
+        await gate;
+      });
+
+      await queue.produce(async () => ({ id: 'a', version: 1 }));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(queue.getStats().runningJobs).toBe(1);
+      await queue.produce(async () => ({ id: 'a', version: 2 }));
+      expect(queue.getPendingJobs()).toBe(0);
+      expect(queue.getMetrics().produced).toBe(1);
+
+      release();
+      await queue.waitForConsumption();
+      await queue.produce(async () => ({ id: 'a', version: 3 }));
+      expect(queue.getMetrics().produced).toBe(2);
+      await queue.destroy();
+    });
+
+    it('replace 和 merge 策略应更新缓冲区中的数据项并保留其位置', async () => {
+      const replacing = new ProdConsPQueue<Job>({ dedupeKey: job => job.id, dedupeStrategy: 'replace' });
+      const consumed: Job[] = [];
+      await replacing.produce(async () => ({ id: 'a', version: 1 }));
+      await replacing.produce(async () => ({ id: 'b', version: 1 }));
+      await replacing.produce(async () => ({ id: 'a', version: 2 }));
+      expect(replacing.getPendingJobs()).toBe(2);
+      expect(replacing.getStats().deduplicated.replaced).toBe(1);
+      replacing.consume(async job => {
+        consumed.push(job);
+      });
+      await replacing.waitForConsumption();
+      expect(consumed).toEqual([{ id: 'a', version: 2 }, { id: 'b', version: 1 }]);
+      await replacing.destroy();
+
+      const merging = new ProdConsPQueue<Job>({
+        dedupeKey: job => job.id,
+        dedupeStrategy: { merge: (existing, incoming) => ({ id: existing.id, version: existing.version + incoming.version }) }
+      });
+      await merging.produce(async () => ({ id: 'a', version: 1 }));
+      await merging.produce(async () => ({ id: 'a', version: 2 }));
+      expect(merging.getStats().deduplicated.merged).toBe(1);
+      const handle = await merging.produceTracked(async () => ({ id: 'a', version: 4 }));
+      merging.consume(async job => job.version);
+      await expect(handle.result).resolves.toBe(7);
+      await merging.destroy();
+    });
+
+    it('replace 策略下已有的数据项正在消费时，新数据项应正常放入缓冲区', async () => {
+      const queue = new ProdConsPQueue<Job>({ dedupeKey: job => job.id, dedupeStrategy: 'replace' });
+      const consumed: number[] = [];
+      queue.consume(async job => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        consumed.push(job.version);
+      });
+
+      await queue.produce(async () => ({ id: 'a', version: 1 }));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await queue.produce(async () => ({ id: 'a', version: 2 }));
+      await queue.produce(async () => ({ id: 'a', version: 3 }));
+      await queue.waitForConsumption();
+
+      expect(consumed).toEqual([1, 3]);
+      await queue.destroy();
+    });
+
+    it('dedupeTtlMs 内应跳过最近消费结束的键', async () => {
+      vi.useFakeTimers();
+      try {
+        const queue = new ProdConsPQueue<Job>({ dedupeKey: job => job.id, dedupeTtlMs: 1000 });
+        queue.consume(async () => {});
+        await queue.produce(async () => ({ id: 'a', version: 1 }));
+        await vi.advanceTimersByTimeAsync(0);
+        expect(queue.isIdle()).toBe(true);
+
+        const skipped = await queue.produceTracked(async () => ({ id: 'a', version: 2 }));
+        await expect(skipped.result).rejects.toBeInstanceOf(QueueDuplicateError);
+        expect(queue.getMetrics().produced).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await queue.produce(async () => ({ id: 'a', version: 3 }));
+        expect(queue.getMetrics().produced).toBe(2);
+        await queue.destroy();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('延迟消费测试', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('延迟的数据项应在到期后按到期时间先后消费，到期前占用槽位', async () => {
+      const queue = new ProdConsPQueue<string>({ slotAmount: 3 });
+      const consumed: string[] = [];
+      queue.consume(async item => {
+        consumed.push(item);
+      });
+
+      await queue.produce(async () => 'later', { delayMs: 200 });
+      await queue.produce(async () => 'sooner', { runAt: new Date(Date.now() + 100) });
+      await queue.produce(async () => 'now', { delayMs: 0 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(consumed).toEqual(['now']);
+      expect(queue.getStats().scheduledJobs).toBe(2);
+      expect(queue.getPendingJobs()).toBe(0);
+      expect(queue.getFreeSlotAmount()).toBe(1);
+      expect(queue.isIdle()).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(consumed).toEqual(['now', 'sooner']);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(consumed).toEqual(['now', 'sooner', 'later']);
+      expect(queue.getStats().scheduledJobs).toBe(0);
+      expect(queue.isIdle()).toBe(true);
+      await queue.destroy();
+    });
+
+    it('scheduledHoldsSlot 为 false 时延迟的数据项到期前不占用槽位', async () => {
+      const queue = new ProdConsPQueue<number>({ slotAmount: 1, scheduledHoldsSlot: false });
+
+      await queue.produce(async () => 1, { delayMs: 50 });
+      await queue.produce(async () => 2, { delayMs: 50 });
+      expect(queue.getFreeSlotAmount()).toBe(1);
+      await expect(queue.tryProduce(async () => 3, { delayMs: 50 })).resolves.toBe(true);
+
+      await vi.advanceTimersByTimeAsync(50);
+      expect(queue.getPendingJobs()).toBe(3);
+      expect(queue.getStats().scheduledJobs).toBe(0);
+      expect(queue.isBlocked()).toBe(true);
+      await queue.destroy();
+    });
+
+    it('等待到期的数据项可以被取消和清空，waitForConsumption 会等待它们', async () => {
+      const queue = new ProdConsPQueue<string, string>();
+      const handle = await queue.produceTracked(async () => 'cancelled', { delayMs: 100 });
+      const cleared = await queue.produceTracked(async () => 'cleared', { delayMs: 100 });
+
+      expect(handle.cancel()).toBe(true);
+      await expect(handle.result).rejects.toThrow('cancelled');
+      await queue.clear();
+      await expect(cleared.result).rejects.toThrow('cleared');
+      expect(queue.getStats().scheduledJobs).toBe(0);
+      expect(queue.getFreeSlotAmount()).toBe(10);
+
+      queue.consume(async item => item.toUpperCase());
+      const tracked = await queue.produceTracked(async () => 'due', { delayMs: 100 });
+      let consumed = false;
+      const waiting = queue.waitForConsumption().then(() => {
+        consumed = true;
+      });
+      await vi.advanceTimersByTimeAsync(99);
+      expect(consumed).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      await waiting;
+      await expect(tracked.result).resolves.toBe('DUE');
+      await queue.destroy();
+    });
+
+    it('延迟的数据项应随存储重放并继续等待到期', async () => {
+      const store = new MemoryBufferStore<string>();
+      const first = new ProdConsPQueue<string>({ store });
+      await first.produce(async () => 'scheduled', { delayMs: 100 });
+      await first.destroy();
+
+      const second = new ProdConsPQueue<string>({ store });
+      expect(second.getStats().scheduledJobs).toBe(1);
+      const consumed: string[] = [];
+      second.consume(async item => {
+        consumed.push(item);
+      });
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(consumed).toEqual([]);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(consumed).toEqual(['scheduled']);
+      await second.destroy();
+    });
+  });
+
   describe('新增功能测试', () => {
     it('waitForEmpty应该等待缓冲区清空', async () => {
       let consumeCount = 0;
@@ -1,4 +1,95 @@
 import PQueue from 'p-queue';
+import { PriorityBuffer } from './priority-buffer';
+import { MemoryBufferStore, type BufferStore, type StoredItem } from './buffer-store';
+import { RateLimiter, type RateLimit, type RateLimitState } from './rate-limiter';
+import { AdaptiveConcurrencyController, type AdaptiveConcurrencyOptions } from './adaptive-concurrency';
+import { QueueMetrics, type HistogramSnapshot, type MetricsSnapshot, type ThroughputSnapshot } from './metrics';
+import { formatPrometheus, type PrometheusOptions } from './prometheus';
+import type { ItemContext, ProdConsHooks } from './hooks';
+import {
+    InMemorySpanRecorder,
+    TracingHooks,
+    formatTraceparent,
+    parseTraceparent,
+    type RecordedSpan,
+    type Span,
+    type SpanAttributeValue,
+    type SpanContext,
+    type SpanOptions,
+    type Tracer,
+    type TracingHooksOptions
+} from './tracing';
+import { Pipeline, pipeline, type PipelineStage, type PipelineStats } from './pipeline';
+import {
+    JsonSnapshotSerializer,
+    SNAPSHOT_VERSION,
+    StructuredCloneSnapshotSerializer,
+    type QueueSnapshot,
+    type SnapshotSerializer
+} from './snapshot';
+import {
+    BatchOutcomeError,
+    ConsumerError,
+    ProdConsError,
+    QueueCancelledError,
+    QueueClearedError,
+    QueueClosedError,
+    QueueDestroyedError,
+    QueueDuplicateError,
+    QueueOverflowError,
+    QueueTimeoutError
+} from './errors';
+
+export type {
+    BufferStore,
+    StoredItem,
+    RateLimit,
+    RateLimitState,
+    AdaptiveConcurrencyOptions,
+    HistogramSnapshot,
+    MetricsSnapshot,
+    ThroughputSnapshot,
+    PrometheusOptions,
+    ItemContext,
+    ProdConsHooks,
+    RecordedSpan,
+    Span,
+    SpanAttributeValue,
+    SpanContext,
+    SpanOptions,
+    Tracer,
+    TracingHooksOptions,
+    PipelineStage,
+    PipelineStats,
+    QueueSnapshot,
+    SnapshotSerializer
+};
+export {
+    PriorityBuffer,
+    formatPrometheus,
+    formatTraceparent,
+    parseTraceparent,
+    TracingHooks,
+    InMemorySpanRecorder,
+    Pipeline,
+    pipeline,
+    JsonSnapshotSerializer,
+    StructuredCloneSnapshotSerializer,
+    SNAPSHOT_VERSION,
+    MemoryBufferStore,
+    RateLimiter,
+    AdaptiveConcurrencyController,
+    BatchOutcomeError,
+    ConsumerError,
+    ProdConsError,
+    QueueCancelledError,
+    QueueClearedError,
+    QueueClosedError,
+    QueueDestroyedError,
+    QueueDuplicateError,
+    QueueOverflowError,
+    QueueTimeoutError
+};
 
 /**
  * 定义一个通用的事件监听器函数类型
@@ -7,37 +98,791 @@ import PQueue from 'p-queue';
  */
 type EventListener<T> = (value: T) => void;
 
+/**
+ * 消费失败时的重试策略。
+ * @template TItem - 数据项类型
+ */
+export interface RetryPolicy<TItem = any> {
+    /**
+     * 每个数据项最多被消费的次数（包含第一次）。
+     * @default 1
+     */
+    maxAttempts?: number;
+    /**
+     * 退避方式：`fixed` 每次等待相同时长，`exponential` 按 `factor` 指数增长。
+     * @default 'fixed'
+     */
+    backoff?: 'fixed' | 'exponential';
+    /**
+     * 第一次重试前的基础等待时长（毫秒）。
+     * @default 0
+     */
+    delayMs?: number;
+    /**
+     * 指数退避的增长因子。
+     * @default 2
+     */
+    factor?: number;
+    /**
+     * 单次等待时长的上限（毫秒）。
+     * @default Infinity
+     */
+    maxDelayMs?: number;
+    /**
+     * 抖动比例，取值 0~1。实际等待时长在 `[delay * (1 - jitter), delay]` 之间随机。
+     * @default 0
+     */
+    jitter?: number;
+    /**
+     * 判断某次失败是否应该重试。返回 `false` 时数据项直接进入死信队列。
+     * @param {unknown} error - 消费函数抛出的错误。
+     * @param {TItem} item - 失败的数据项。
+     * @param {number} attempt - 已经尝试的次数（从 1 开始）。
+     */
+    shouldRetry?: (error: unknown, item: TItem, attempt: number) => boolean;
+}
+
+/**
+ * 死信队列中的一条记录，表示一个已耗尽重试次数的数据项。
+ * @template TItem - 数据项类型
+ */
+export interface DeadLetter<TItem = any> {
+    /** 失败的数据项 */
+    item: TItem;
+    /** 最后一次失败的错误 */
+    error: unknown;
+    /** 总共尝试的次数 */
+    attempts: number;
+    /** 进入死信队列的时间戳（毫秒） */
+    failedAt: number;
+}
+
+/**
+ * 'item-failed' 事件的负载。
+ * @template TItem - 数据项类型
+ */
+export interface ItemFailedEvent<TItem = any> {
+    /** 失败的数据项 */
+    item: TItem;
+    /** 消费函数抛出的错误 */
+    error: unknown;
+    /** 本次是第几次尝试（从 1 开始） */
+    attempt: number;
+    /** 是否会再次重试 */
+    willRetry: boolean;
+}
+
+/**
+ * waitForEmpty()/waitForConsumption()/hasFreeSlot() 的可选参数。
+ */
+export interface WaitOptions {
+    /**
+     * 最长等待时长（毫秒），超时后以错误拒绝。未设置或为 0 时不限制。
+     */
+    timeoutMs?: number;
+    /**
+     * 用于取消等待的信号，被中止时以中止原因拒绝。
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * 'item-consumed' 事件的负载。
+ * @template TItem - 数据项类型
+ * @template TResult - 消费结果类型
+ */
+export interface ItemConsumedEvent<TItem = any, TResult = unknown> {
+    /** 被成功消费的数据项 */
+    item: TItem;
+    /** 消费函数的返回值 */
+    result: TResult;
+}
+
+/**
+ * 'timeout' 事件的负载。
+ * @template TItem - 数据项类型
+ */
+export interface ConsumerTimeoutEvent<TItem = any> {
+    /** 消费超时的数据项 */
+    item: TItem;
+    /** 本次是第几次尝试（从 1 开始） */
+    attempt: number;
+    /** 生效的超时时长（毫秒） */
+    timeoutMs: number;
+}
+
+/**
+ * 'rate-limited' 事件的负载。
+ */
+export interface RateLimitedEvent {
+    /** 被限流的一侧：`produce` 生产者等待，`consume` 推迟从缓冲区取出数据项 */
+    side: 'produce' | 'consume';
+    /** 需要等待的时长（毫秒） */
+    waitMs: number;
+}
+
+/**
+ * 'concurrency-change' 事件的负载。
+ */
+export interface ConcurrencyChangeEvent {
+    /** 调整前的并发数 */
+    previous: number;
+    /** 调整后的并发数 */
+    current: number;
+    /** 调整的来源：`manual` 调用 setConcurrency()，`adaptive` 自适应控制器 */
+    reason: 'manual' | 'adaptive';
+}
+
+/**
+ * 缓冲区已满时的溢出策略：
+ * - `block` 生产者等待空闲槽位
+ * - `reject` 以 {@link QueueOverflowError} 拒绝生产者
+ * - `drop-newest` 丢弃新生产的数据项
+ * - `drop-oldest` 丢弃缓冲区中最早放入的数据项
+ * - `{ coalesce }` 用新数据项替换缓冲区中键相同的数据项，没有键相同的数据项时按 `drop-oldest` 处理
+ *
+ * 除 `block` 外，生产者都不会等待；溢出判断在生产函数完成之后进行。
+ * 所有槽位都被正在消费的数据项占用、缓冲区中没有可丢弃的数据项时，丢弃新生产的数据项。
+ * @template TItem - 数据项类型
+ */
+export type OverflowStrategy<TItem = any> =
+    | 'block'
+    | 'reject'
+    | 'drop-newest'
+    | 'drop-oldest'
+    | { coalesce: (item: TItem) => unknown };
+
+/**
+ * 'dropped' 事件的负载。
+ * @template TItem - 数据项类型
+ */
+export interface DroppedEvent<TItem = any> {
+    /** 被丢弃的数据项 */
+    item: TItem;
+    /** 丢弃的原因，对应生效的溢出策略 */
+    reason: 'drop-newest' | 'drop-oldest' | 'coalesce';
+}
+
+/**
+ * 数据项的键与缓冲区中或正在消费的数据项重复时的处理方式：
+ * - `'skip'`: 跳过新数据项
+ * - `'replace'`: 用新数据项替换缓冲区中的数据项，保留其位置
+ * - `{ merge }`: 用 `merge(existing, incoming)` 的返回值替换缓冲区中的数据项，保留其位置
+ * @template TItem - 数据项类型
+ */
+export type DedupeStrategy<TItem = any> =
+    | 'skip'
+    | 'replace'
+    | { merge: (existing: TItem, incoming: TItem) => TItem };
+
+/**
+ * 'deduplicated' 事件的负载。
+ * @template TItem - 数据项类型
+ */
+export interface DeduplicatedEvent<TItem = any> {
+    /** 新生产的、被去重的数据项 */
+    item: TItem;
+    /** 数据项的键 */
+    key: unknown;
+    /** 实际的处理方式 */
+    action: 'skip' | 'replace' | 'merge';
+}
+
+/**
+ * 'error' 事件的负载。
+ * @template TItem - 数据项类型
+ */
+export interface QueueErrorEvent<TItem = any> {
+    /**
+     * 错误。`consume` 阶段为携带数据项和原始错误的 {@link ConsumerError}，
+     * `listener` 和 `hook` 阶段为监听器或钩子抛出的原始错误。
+     */
+    error: unknown;
+    /**
+     * 出错的环节：`consume` 数据项最终消费失败，`listener` 事件监听器抛出异常，
+     * `hook` 生命周期钩子抛出异常
+     */
+    phase: 'consume' | 'listener' | 'hook';
+    /** 相关的数据项，`listener` 阶段没有，`hook` 阶段在生产函数完成之前也没有 */
+    item?: TItem;
+    /** `listener` 阶段中抛出异常的监听器所监听的事件名称 */
+    event?: ProdConsEventName;
+    /** `hook` 阶段中抛出异常的钩子名称 */
+    hook?: keyof ProdConsHooks;
+}
+
+/**
+ * 实例输出日志所用的记录器，与 `console` 兼容。
+ */
+export interface ProdConsLogger {
+    error(...args: unknown[]): void;
+}
+
+/**
+ * close() 的可选参数。
+ */
+export interface CloseOptions {
+    /**
+     * 关闭方式：`drain` 等待缓冲区中和正在消费的数据项处理完毕，
+     * `abort` 立即丢弃缓冲区并中止正在消费的数据项。
+     * @default 'drain'
+     */
+    mode?: 'drain' | 'abort';
+    /**
+     * `drain` 模式下的最长等待时长（毫秒），超时后按 `abort` 处理剩余的数据项。
+     * 未设置或为 0 时不限制。
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * close() 的结果，同时也是 'close' 事件的负载。
+ * 计数只统计从调用 `close()` 开始到关闭完成之间发生的事情。
+ */
+export interface CloseSummary {
+    /** 关闭期间被成功消费的数据项数 */
+    completed: number;
+    /** 关闭期间耗尽重试次数、进入死信队列的数据项数 */
+    failed: number;
+    /** 未被消费就从缓冲区中丢弃的数据项数 */
+    dropped: number;
+    /** 消费过程中被中止的数据项数 */
+    aborted: number;
+    /** 因等待槽位而被拒绝的生产者数 */
+    rejectedProducers: number;
+    /** `drain` 是否因超时而转为中止 */
+    timedOut: boolean;
+}
+
 /**
  * ProdConsPQueue 类的构造函数选项
+ * @template TItem - 数据项类型
  */
-export interface ProdConsOptions {
+export interface ProdConsOptions<TItem = any> {
     /**
      * 缓冲区中的槽位数量, 代表生产者可以放入的最大项目数。
-     * 这用于实现背压 (backpressure)。
+     * 这用于实现背压 (backpressure)。设置了 `weight` 时表示容量的单位数。
      * @default 10
      */
     slotAmount?: number;
     /**
-     * 消费者函数的最大并发数。
+     * 计算数据项占用的槽位数（例如字节数），使容量按单位而不是按数据项个数计算。
+     * 应返回正数。未设置时每个数据项占用一个槽位。
+     * 超过 `slotAmount` 的数据项会等到其他槽位全部空闲后放入。
+     */
+    weight?: (item: TItem) => number;
+    /**
+     * 消费者函数的最大并发数。可以通过 `setConcurrency` 调整。
+     * @default 1
+     */
+    concurrency?: number;
+    /**
+     * 自适应并发控制。设置后根据消费耗时和错误率，在 `[min, max]` 之间自动调整并发数。
+     */
+    adaptiveConcurrency?: AdaptiveConcurrencyOptions;
+    /**
+     * 缓冲区已满时的溢出策略，见 {@link OverflowStrategy}。
+     * @default 'block'
+     */
+    overflow?: OverflowStrategy<TItem>;
+    /**
+     * 通过 `delayMs` 或 `runAt` 延迟消费的数据项在到期之前是否占用槽位。
+     * 为 `false` 时生产者不需要等待空闲槽位，数据项到期后直接放入缓冲区，不受槽位限制。
+     * @default true
+     */
+    scheduledHoldsSlot?: boolean;
+    /**
+     * 计算数据项的去重键。设置后，新生产的数据项的键与缓冲区中或正在消费的数据项相同时，
+     * 按 `dedupeStrategy` 处理，而不会作为新的数据项放入缓冲区。键使用 `SameValueZero` 比较。
+     */
+    dedupeKey?: (item: TItem) => unknown;
+    /**
+     * 键重复时的处理方式，见 {@link DedupeStrategy}。
+     * 已有的数据项正在消费时无法替换或合并，`'replace'` 和 `merge` 会把新数据项正常放入缓冲区。
+     * @default 'skip'
+     */
+    dedupeStrategy?: DedupeStrategy<TItem>;
+    /**
+     * 数据项消费结束后继续记住其键的时长（毫秒），期间生产的键相同的数据项会被跳过。为 0 时不记住。
+     * @default 0
+     */
+    dedupeTtlMs?: number;
+    /**
+     * 通过 `consumeGroup` 注册的消费者组的分发方式，见 {@link ConsumerGroupMode}。
+     * @default 'competing'
+     */
+    consumerGroupMode?: ConsumerGroupMode;
+    /**
+     * 单次消费的超时时长（毫秒）。超时后会中止传给消费函数的 `AbortSignal`，
+     * 释放其占用的槽位，并按消费失败处理（重试或进入死信队列）。
+     * 可以通过 `produce` 的 `consumeTimeoutMs` 为单个数据项覆盖。未设置或为 0 时不限制。
+     */
+    consumeTimeoutMs?: number;
+    /**
+     * 消费失败时的重试策略。未设置时每个数据项只消费一次。
+     */
+    retry?: RetryPolicy<TItem>;
+    /**
+     * 死信队列的最大容量，超出时丢弃最早的记录。
+     * @default 1000
+     */
+    maxDeadLetters?: number;
+    /**
+     * 日志记录器。没有 'error' 事件监听器时，错误通过它输出。
+     * @default console
+     */
+    logger?: ProdConsLogger;
+    /**
+     * 缓冲区的持久化存储。数据项放入缓冲区时被追加，被成功消费或进入死信队列后被确认；
+     * 创建实例时会将尚未确认的数据项重新放入缓冲区。
+     * @default new MemoryBufferStore()
+     */
+    store?: BufferStore<TItem>;
+    /**
+     * 生产速率限制。超出时生产者在等待槽位之前先等待，`hasFreeSlot()` 也会等到有可用的许可。可以通过 `setRateLimit` 调整。
+     */
+    produceRateLimit?: RateLimit;
+    /**
+     * 消费速率限制，按消费函数的调用次数计算（批量模式下一批算一次，重试不计入）。
+     * 超出时推迟从缓冲区取出数据项。可以通过 `setRateLimit` 调整。
+     */
+    consumeRateLimit?: RateLimit;
+    /**
+     * 生产和消费的生命周期钩子，按顺序调用。可以通过 `addHooks`/`removeHooks` 调整。
+     */
+    hooks?: ProdConsHooks<TItem>[];
+}
+
+/**
+ * 从序列化的快照重建队列时 ProdConsPQueue.restore() 的参数：构造参数，以及快照的序列化方式。
+ * @template TItem - 数据项类型
+ * @template TEncoded - 序列化结果的类型
+ */
+export interface RestoreOptions<TItem = any, TEncoded = unknown> extends ProdConsOptions<TItem> {
+    /** 快照的序列化方式，需要与调用 `snapshot` 时使用的一致 */
+    serializer: SnapshotSerializer<TItem, TEncoded>;
+}
+
+/**
+ * ProdConsPQueue 触发的事件及其负载类型的映射。
+ * `on`/`off`/`waitForEvent` 通过该映射在编译期检查事件名称与回调参数。
+ * @template TItem - 缓冲区中数据项的类型
+ * @template TResult - 消费函数返回值的类型
+ */
+export interface ProdConsEventMap<TItem = any, TResult = unknown> {
+    /** 空闲槽位数量变化，负载为当前的空闲槽位数 */
+    'free-slot-amount-change': number;
+    /** 阻塞状态变化，负载为当前是否阻塞 */
+    'blocked-state-change': boolean;
+    /** 实例被销毁，负载为被销毁的实例本身 */
+    'destroy': ProdConsPQueue<TItem, TResult>;
+    /** 缓冲区从有数据变为空（可能仍有正在消费的数据项） */
+    'empty': void;
+    /** 缓冲区为空且没有正在消费的数据项 */
+    'idle': void;
+    /** 数据项被成功消费 */
+    'item-consumed': ItemConsumedEvent<TItem, TResult>;
+    /** 某次消费失败（无论是否还会重试） */
+    'item-failed': ItemFailedEvent<TItem>;
+    /** 数据项耗尽重试次数，进入死信队列 */
+    'item-dead-lettered': DeadLetter<TItem>;
+    /** 某次消费超时 */
+    'timeout': ConsumerTimeoutEvent<TItem>;
+    /** 实例通过 close() 关闭完成，负载为关闭结果 */
+    'close': CloseSummary;
+    /** 数据项最终消费失败，或事件监听器抛出异常 */
+    'error': QueueErrorEvent<TItem>;
+    /** 生产或消费因速率限制开始等待 */
+    'rate-limited': RateLimitedEvent;
+    /** 并发数被调整 */
+    'concurrency-change': ConcurrencyChangeEvent;
+    /** 数据项因溢出策略被丢弃 */
+    'dropped': DroppedEvent<TItem>;
+    /** 新生产的数据项因键重复被跳过、替换或合并到已有的数据项时触发 */
+    'deduplicated': DeduplicatedEvent<TItem>;
+}
+
+/**
+ * ProdConsPQueue 支持的事件名称。
+ */
+export type ProdConsEventName = keyof ProdConsEventMap;
+
+/**
+ * 生产函数类型，其解析值将被放入缓冲区。
+ * `signal` 会在 `clear()` 或 `destroy()` 时被中止。
+ * @template TItem - 生产出的数据项类型
+ */
+export type ProduceFn<TItem> = (signal: AbortSignal) => Promise<TItem>;
+
+/**
+ * 消费函数类型，处理单个数据项。
+ * `signal` 会在消费超时、`clear()` 或 `destroy()` 时被中止。
+ * `context` 是随数据项从 `produce` 传递过来的上下文。
+ * @template TItem - 数据项类型
+ * @template TResult - 消费结果类型
+ */
+export type ConsumeFn<TItem, TResult> = (
+    data: TItem,
+    signal: AbortSignal,
+    context: ItemContext<TItem>
+) => Promise<TResult>;
+
+/**
+ * 批量消费函数类型，处理一批数据项。
+ * 可以返回与 `items` 等长的 `PromiseSettledResult` 数组来逐项报告结果（例如 `Promise.allSettled` 的返回值），
+ * 返回 `void` 表示整批成功，抛出错误表示整批失败。
+ * `signal` 会在消费超时、`clear()` 或 `destroy()` 时被中止。
+ * `contexts` 与 `items` 一一对应，是各数据项的上下文。
+ * @template TItem - 数据项类型
+ * @template TResult - 单个数据项的消费结果类型
+ */
+export type BatchConsumeFn<TItem, TResult> = (
+    items: TItem[],
+    signal: AbortSignal,
+    contexts: ItemContext<TItem>[]
+) => Promise<PromiseSettledResult<TResult>[] | void>;
+
+/**
+ * consumeBatch() 的批量参数。
+ */
+export interface BatchOptions {
+    /**
+     * 每批最多包含的数据项数量，凑满后立即提交。
+     * @default 10
+     */
+    maxSize?: number;
+    /**
+     * 不足一批时最多等待的时长（毫秒），到期后提交已有的数据项。
+     * 为 0 时只要有空闲并发就立即提交。
+     * @default 0
+     */
+    maxWaitMs?: number;
+}
+
+/**
+ * 消费者组的分发方式：
+ * - `'broadcast'`: 每个数据项交给每个消费者组各消费一次，所有组都结束后才确定结果并释放槽位
+ * - `'competing'`: 每个数据项只交给一个消费者组，按各组的 `weight` 分配
+ */
+export type ConsumerGroupMode = 'broadcast' | 'competing';
+
+/**
+ * consumeGroup() 的参数。
+ */
+export interface ConsumerGroupOptions {
+    /**
+     * 该组的消费并发数。
      * @default 1
      */
     concurrency?: number;
+    /**
+     * `'competing'` 模式下分配数据项的权重，各组按权重比例获得数据项。
+     * @default 1
+     */
+    weight?: number;
+}
+
+/**
+ * getStats() 中单个消费者组的统计信息。
+ */
+export interface ConsumerGroupStats {
+    /** 该组的并发数 */
+    concurrency: number;
+    /** 该组的权重 */
+    weight: number;
+    /** 该组是否已暂停 */
+    isPaused: boolean;
+    /** 该组正在消费的数据项数 */
+    running: number;
+    /** `'broadcast'` 模式下已分发给该组、尚未开始消费的数据项数 */
+    backlog: number;
+    /** 该组成功消费的数据项数 */
+    consumed: number;
+    /** 该组耗尽重试次数的数据项数 */
+    failed: number;
+}
+
+/**
+ * @private
+ * 已注册的消费者组及其进度。
+ */
+interface ConsumerGroup<TItem, TResult> {
+    fn: ConsumeFn<TItem, TResult>;
+    concurrency: number;
+    weight: number;
+    paused: boolean;
+    running: number;
+    /** `'broadcast'` 模式下已分发给该组、尚未开始消费的缓冲区项 */
+    backlog: BufferEntry<TItem, TResult>[];
+    /** 平滑加权轮询的当前权重 */
+    currentWeight: number;
+    consumed: number;
+    failed: number;
+}
+
+/**
+ * @private
+ * `'broadcast'` 模式下一个消费者组处理完一个数据项的结果。`skipped` 表示该组在开始消费之前被移除。
+ */
+type DeliveryOutcome<TResult> =
+    | { status: 'consumed', result: TResult }
+    | { status: 'failed', error: unknown, attempts: number }
+    | { status: 'aborted', reason: unknown }
+    | { status: 'skipped' };
+
+/**
+ * @private
+ * 已设置的批量消费者及其参数。
+ */
+interface BatchConsumer<TItem, TResult> {
+    fn: BatchConsumeFn<TItem, TResult>;
+    maxSize: number;
+    maxWaitMs: number;
+}
+
+/**
+ * produce()/produceTracked() 的可选参数。
+ */
+export interface ProduceOptions {
+    /**
+     * 数据项的优先级，数值越大越先被消费。
+     * @default 0
+     */
+    priority?: number;
+    /**
+     * 同一优先级内的排序键，数值越小越先被消费。
+     * 未指定时使用入队序号，即同一优先级内保持 FIFO。
+     * 同一优先级内建议要么都指定、要么都不指定。
+     */
+    orderKey?: number;
+    /**
+     * 该数据项单次消费的超时时长（毫秒），覆盖 `ProdConsOptions.consumeTimeoutMs`。
+     */
+    consumeTimeoutMs?: number;
+    /**
+     * 数据项上下文的初始键值对（例如上游请求的 `traceparent`），
+     * 会传给生命周期钩子，并作为 `context.values` 传给消费函数。
+     */
+    context?: Record<string, unknown>;
+    /**
+     * 用于取消生产的信号。在等待限流、等待空闲槽位期间被中止时以中止原因拒绝并移除等待；
+     * 生产函数收到的 `signal` 也会随之中止。
+     */
+    signal?: AbortSignal;
+    /**
+     * 等待空闲槽位的最长时长（毫秒），超时后以 {@link QueueTimeoutError} 拒绝，与 `hasFreeSlot` 的 `timeoutMs` 含义相同。
+     * 未设置或为 0 时不限制。
+     */
+    timeoutMs?: number;
+    /**
+     * 分区键（例如用户编号、文档编号）。键相同的数据项不会被并发消费，并按放入缓冲区的顺序依次消费；
+     * 不同键之间仍按优先级调度并使用全部并发度。未设置时不受限制。
+     */
+    partitionKey?: string;
+    /**
+     * 延迟消费的时长（毫秒）。数据项在到期之前不会被消费，见 `ProdConsOptions.scheduledHoldsSlot`。
+     */
+    delayMs?: number;
+    /**
+     * 最早可以开始消费的时间，为 `Date` 或毫秒时间戳。同时设置时优先于 `delayMs`，已经过去的时间视为立即可以消费。
+     */
+    runAt?: Date | number;
+}
+
+/**
+ * produceTracked() 返回的句柄，用于跟踪单个数据项的消费结果。
+ * @template TItem - 数据项类型
+ * @template TResult - 消费结果类型
+ */
+export interface ProduceHandle<TItem, TResult> {
+    /** 已放入缓冲区的数据项 */
+    item: TItem;
+    /**
+     * 在数据项被成功消费时以消费函数的返回值解析；
+     * 在消费失败（耗尽重试次数）、被取消、被清空或实例被销毁时拒绝。
+     */
+    result: Promise<TResult>;
+    /**
+     * 若数据项仍在缓冲区中等待消费，则将其移出缓冲区并以 {@link QueueCancelledError} 拒绝 `result`。
+     * @returns {boolean} 是否取消成功。数据项已开始消费或已结束时返回 `false`。
+     */
+    cancel(): boolean;
+}
+
+/**
+ * @private
+ * 缓冲区中的一项，携带数据项本身以及可选的结果回调。
+ */
+interface BufferEntry<TItem, TResult> {
+    /** 在存储中的记录编号 */
+    storeId: number;
+    /** 放入缓冲区的时间，用于统计排队耗时 */
+    enqueuedAt: number;
+    /** 随数据项传递的上下文 */
+    context: ItemContext<TItem>;
+    /** 占用的槽位数 */
+    weight: number;
+    item: TItem;
+    priority: number;
+    timeoutMs?: number;
+    orderKey?: number;
+    partitionKey?: string;
+    /** 去重键，只在设置了 `dedupeKey` 时存在 */
+    dedupeKey?: unknown;
+    /** 最早可以开始消费的时间戳，只在数据项等待到期期间存在 */
+    runAt?: number;
+    /** `'broadcast'` 模式下各消费者组的进度，所有组都结束后确定结果 */
+    broadcast?: {
+        remaining: number;
+        result?: TResult;
+        failure?: { error: unknown, attempts: number };
+        aborted?: { reason: unknown };
+    };
+    settle?: {
+        resolve: (value: TResult) => void;
+        reject: (reason: unknown) => void;
+    };
+}
+
+/**
+ * getStats() 返回的队列统计信息。
+ */
+export interface ProdConsStats {
+    /** 待处理的任务数（缓冲区中等待消费的项目数） */
+    pendingJobs: number;
+    /** 按优先级分组的待处理任务数，键为优先级 */
+    pendingByPriority: Record<number, number>;
+    /** 按分区键分组的待处理任务数，只包含有待处理任务的键 */
+    pendingByPartition: Record<string, number>;
+    /** 当前正在执行的任务数 */
+    runningJobs: number;
+    /** 可用的空闲槽位数 */
+    freeSlotAmount: number;
+    /** 生产者是否被阻塞 (槽位已满) */
+    isBlocked: boolean;
+    /** 队列是否已暂停 */
+    isPaused: boolean;
+    /** 配置的并发数 */
+    concurrency: number;
+    /** 配置的槽位总数 */
+    slotAmount: number;
+    /** 已被生产者预留、数据项尚未放入缓冲区的槽位数 */
+    reservedSlots: number;
+    /** 已占用的槽位数，包括缓冲区中、正在消费、等待到期和已预留的（设置了 `weight` 时按权重计算） */
+    usedSlots: number;
+    /** 通过 `delayMs` 或 `runAt` 延迟、尚未到期的数据项数，不计入 `pendingJobs` */
+    scheduledJobs: number;
+    /** 生产和消费两侧的限流状态，未设置限流时为 `null` */
+    rateLimits: {
+        produce: RateLimitState | null;
+        consume: RateLimitState | null;
+    };
+    /** 各消费者组的统计信息，键为组名 */
+    groups: Record<string, ConsumerGroupStats>;
+    /** 去重的累计计数：被跳过、替换和合并的数据项数 */
+    deduplicated: {
+        skipped: number;
+        replaced: number;
+        merged: number;
+    };
+    /** 溢出策略的累计计数：被丢弃、被合并替换的数据项数，以及被拒绝的生产者数 */
+    overflow: {
+        dropped: number;
+        coalesced: number;
+        rejected: number;
+    };
+}
+
+/**
+ * 根据重试策略计算第 `attempt` 次失败后的等待时长。
+ * @param {RetryPolicy} policy - 重试策略。
+ * @param {number} attempt - 已经尝试的次数（从 1 开始）。
+ * @returns {number} 等待时长（毫秒）。
+ */
+function computeRetryDelay(policy: RetryPolicy, attempt: number): number {
+    const { backoff = 'fixed', delayMs = 0, factor = 2, maxDelayMs = Infinity, jitter = 0 } = policy;
+    const base = backoff === 'exponential' ? delayMs * Math.pow(factor, attempt - 1) : delayMs;
+    const capped = Math.min(base, maxDelayMs);
+    const ratio = Math.min(Math.max(jitter, 0), 1);
+    return capped * (1 - ratio * Math.random());
+}
+
+/**
+ * 创建一个在任一输入信号被中止时以相同原因中止的信号。
+ * 只有一个输入信号时直接返回它。
+ * @param {AbortSignal[]} signals - 输入信号。
+ * @returns {{ signal: AbortSignal, unlink: () => void }} 组合后的信号，以及移除输入信号上监听的函数。
+ */
+function linkSignals(signals: AbortSignal[]): { signal: AbortSignal, unlink: () => void } {
+    if (signals.length === 1) {
+        return { signal: signals[0], unlink: () => {} };
+    }
+
+    const controller = new AbortController();
+    const unlink = () => signals.forEach(signal => signal.removeEventListener('abort', onAbort));
+    const onAbort = (event: Event) => {
+        unlink();
+        controller.abort((event.target as AbortSignal).reason);
+    };
+    const aborted = signals.find(signal => signal.aborted);
+    if (aborted) {
+        controller.abort(aborted.reason);
+    } else {
+        signals.forEach(signal => signal.addEventListener('abort', onAbort, { once: true }));
+    }
+    return { signal: controller.signal, unlink };
+}
+
+/**
+ * 让 `promise` 在 `signal` 被中止时立即以中止原因拒绝，
+ * 即使 `promise` 本身永远不会结束。
+ * @param {Promise<T>} promise - 要等待的 Promise。
+ * @param {AbortSignal} signal - 中止信号。
+ * @returns {Promise<T>} 与 `promise` 同步结束，或在中止时拒绝的 Promise。
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) {
+        // 不再等待 promise，避免它之后的拒绝成为未处理的拒绝
+        promise.catch(() => {});
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
 }
 
 // 一个 setImmediate 的 polyfill，以确保在不同环境中行为一致
-const setImmediate = globalThis.setImmediate || function (fn) {
+const setImmediate = globalThis.setImmediate || function (fn: () => void) {
     setTimeout(fn, 0);
 };
 
+// setTimeout 支持的最长等待时长（毫秒）
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 /**
  * 一个基于 p-queue 的生产者-消费者模型实现。
  * 它提供了一个带槽位限制的缓冲区，用于控制生产速度（背压），
  * 并使用 p-queue 来管理消费者的并发执行。
  * 支持事件监听、暂停、恢复和销毁等功能。
  *
+ * @template TItem - 缓冲区中数据项的类型，即生产函数的解析值类型
+ * @template TResult - 消费函数的返回值类型
+ *
  * @example
  * ```typescript
- * const queue = new ProdConsPQueue({ slotAmount: 5, concurrency: 2 });
+ * const queue = new ProdConsPQueue<string>({ slotAmount: 5, concurrency: 2 });
  *
  * // 设置消费者
  * queue.consume(async (data) => {
@@ -60,7 +905,7 @@ const setImmediate = globalThis.setImmediate || function (fn) {
  * console.log('All items have been consumed.');
  * ```
  */
-export class ProdConsPQueue {
+export class ProdConsPQueue<TItem = any, TResult = unknown> {
     /**
      * @private
      * p-queue 实例，用于管理并发消费任务
@@ -68,328 +913,2516 @@ export class ProdConsPQueue {
     private queue: PQueue;
     /**
      * @private
-     * 存储已生产但尚未消费的数据的内部缓冲区
+     * 存储已生产但尚未消费的数据的内部缓冲区，按优先级排序
      */
-    private buffer: any[];
+    private buffer: PriorityBuffer<BufferEntry<TItem, TResult>>;
     /**
      * @private
-     * 缓冲区的最大容量
+     * 尚未到期的延迟数据项，按到期时间排序（到期时间作为排序键）
      */
-    private slotAmount: number;
+    private scheduled: PriorityBuffer<BufferEntry<TItem, TResult>> = new PriorityBuffer();
     /**
      * @private
-     * 存储事件监听器的 Map
+     * 延迟数据项在到期之前是否占用槽位
      */
-    private listeners: Map<string, Set<EventListener<any>>>;
+    private scheduledHoldsSlot: boolean;
     /**
      * @private
-     * 标记是否正在进行消费
+     * 在最早的延迟数据项到期时触发的计时器，所有延迟数据项共用一个
      */
-    private consuming: boolean = false;
+    private scheduleTimer: ReturnType<typeof setTimeout> | null = null;
     /**
      * @private
-     * 用户提供的消费函数
+     * `scheduleTimer` 对应的到期时间
      */
-    private consumeFn: ((data: any) => Promise<void>) | null = null;
+    private scheduleTimerAt: number = 0;
     /**
      * @private
-     * 标记实例是否已被销毁
+     * 缓冲区的最大容量
      */
-    private destroyed: boolean = false;
+    private slotAmount: number;
     /**
      * @private
-     * 存储等待可用槽位的生产者的 Promise 解析函数
+     * 存储事件监听器的 Map
      */
-    private waitingForSlot: Array<{ resolve: () => void }> = [];
+    private listeners: Map<ProdConsEventName, Set<EventListener<any>>>;
     /**
      * @private
-     * 缓存上一次的阻塞状态，用于触发 'blocked-state-change' 事件
+     * 标记是否已通过 `consume`、`consumeBatch` 或 `consumeGroup` 设置了消费者
      */
-    private previousBlocked: boolean = false;
+    private consuming: boolean = false;
     /**
      * @private
-     * 存储等待特定事件的 Promise 解析函数
+     * 标记是否已通过 `pause()` 暂停消费，与是否设置了消费者无关
      */
-    private eventWaiters: Map<string, Array<{ resolve: (value: any) => void, condition?: (value: any) => boolean }>> = new Map();
+    private paused: boolean = false;
+    /**
+     * @private
+     * 用户提供的消费函数
+     */
+    private consumeFn: ConsumeFn<TItem, TResult> | null = null;
+    /**
+     * @private
+     * 用户通过 consumeBatch 提供的批量消费者，与 consumeFn 互斥
+     */
+    private batchConsumer: BatchConsumer<TItem, TResult> | null = null;
+    /**
+     * @private
+     * 通过 consumeGroup 注册的消费者组，键为组名；非空时不使用 consumeFn 和 batchConsumer
+     */
+    private groups: Map<string, ConsumerGroup<TItem, TResult>> = new Map();
+    /**
+     * @private
+     * 消费者组的分发方式
+     */
+    private consumerGroupMode: ConsumerGroupMode;
+    /**
+     * @private
+     * 批量模式下等待凑批的计时器
+     */
+    private batchTimer: ReturnType<typeof setTimeout> | null = null;
+    /**
+     * @private
+     * 批量模式下凑批等待已到期，下一次调度应提交不足一批的数据项
+     */
+    private batchFlushDue: boolean = false;
+    /**
+     * @private
+     * 生产速率限流器
+     */
+    private produceLimiter: RateLimiter | null;
+    /**
+     * @private
+     * 消费速率限流器
+     */
+    private consumeLimiter: RateLimiter | null;
+    /**
+     * @private
+     * 消费被限流后，等待下一次许可的计时器
+     */
+    private rateTimer: ReturnType<typeof setTimeout> | null = null;
+    /**
+     * @private
+     * 因生产限流而等待的生产者，调整限流时被提前唤醒以重新计算
+     */
+    private rateSleepers: Set<() => void> = new Set();
+    /**
+     * @private
+     * 自适应并发控制器
+     */
+    private concurrencyController: AdaptiveConcurrencyController | null;
+    /**
+     * @private
+     * 累计指标
+     */
+    private metrics: QueueMetrics = new QueueMetrics();
+    /**
+     * @private
+     * 已注册的生命周期钩子，按注册顺序调用
+     */
+    private hooks: Set<ProdConsHooks<TItem, TResult>>;
+    /**
+     * @private
+     * 缓冲区已满时的溢出策略
+     */
+    private overflow: OverflowStrategy<TItem>;
+    /**
+     * @private
+     * 溢出策略的累计计数
+     */
+    private overflowCounts = { dropped: 0, coalesced: 0, rejected: 0 };
+    /**
+     * @private
+     * 计算去重键的函数，未设置时不去重
+     */
+    private dedupeKey: ((item: TItem) => unknown) | null;
+    /**
+     * @private
+     * 键重复时的处理方式
+     */
+    private dedupeStrategy: DedupeStrategy<TItem>;
+    /**
+     * @private
+     * 消费结束后继续记住键的时长（毫秒）
+     */
+    private dedupeTtlMs: number;
+    /**
+     * @private
+     * 去重键到缓冲区中或正在消费的数据项的映射。键相同的数据项一个正在消费、一个在缓冲区中时，指向缓冲区中的那个
+     */
+    private dedupeIndex: Map<unknown, BufferEntry<TItem, TResult>> = new Map();
+    /**
+     * @private
+     * 最近消费结束的键到其过期时间的映射，按过期时间先后排列
+     */
+    private recentKeys: Map<unknown, number> = new Map();
+    /**
+     * @private
+     * 去重的累计计数
+     */
+    private dedupeCounts = { skipped: 0, replaced: 0, merged: 0 };
+    /**
+     * @private
+     * 标记实例是否已被销毁
+     */
+    private destroyed: boolean = false;
+    /**
+     * @private
+     * 进行中或已完成的关闭过程，非空时拒绝新的生产
+     */
+    private closing: Promise<CloseSummary> | null = null;
+    /**
+     * @private
+     * 关闭过程是否已完成（'close' 事件已触发）
+     */
+    private closed: boolean = false;
+    /**
+     * @private
+     * 按到达顺序存储等待可用槽位的生产者的 Promise 解析函数。
+     * 等待者需要 `units` 个空闲槽位，`reserve` 为 `true` 的等待者被唤醒时会同时预留它们。
+     */
+    private waitingForSlot: Array<{
+        resolve: () => void,
+        reject: (reason: unknown) => void,
+        units: number,
+        reserve: boolean
+    }> = [];
+    /**
+     * @private
+     * 已被生产者预留、但数据项尚未放入缓冲区的槽位数
+     */
+    private reservedSlots: number = 0;
+    /**
+     * @private
+     * 缓冲区中和正在消费的数据项占用的槽位数（按权重）
+     */
+    private occupiedSlots: number = 0;
+    /**
+     * @private
+     * 计算数据项占用槽位数的函数，未设置时每个数据项占用一个槽位
+     */
+    private weight: ((item: TItem) => number) | null;
+    /**
+     * @private
+     * 分区键到该键状态的映射：缓冲区中的数据项（按放入顺序）以及正在消费、占用该分区的数据项。
+     * 没有数据项的键会被删除。
+     */
+    private partitions: Map<string, { pending: BufferEntry<TItem, TResult>[], running: BufferEntry<TItem, TResult> | null }> = new Map();
+    /**
+     * @private
+     * 缓存上一次的阻塞状态，用于触发 'blocked-state-change' 事件
+     */
+    private previousBlocked: boolean = false;
+    /**
+     * @private
+     * 缓存上一次缓冲区是否为空，用于触发 'empty' 事件
+     */
+    private previousEmpty: boolean = true;
+    /**
+     * @private
+     * 缓存上一次是否空闲，用于触发 'idle' 事件
+     */
+    private previousIdle: boolean = true;
+    /**
+     * @private
+     * 存储等待队列空闲的 Promise 回调
+     */
+    private idleWaiters: Set<{ resolve: () => void, reject: (reason: unknown) => void }> = new Set();
+    /**
+     * @private
+     * 存储等待特定事件的 Promise 解析函数
+     */
+    private eventWaiters: Map<ProdConsEventName, Array<{ resolve: (value: any) => void, condition?: (value: any) => boolean }>> = new Map();
+    /**
+     * @private
+     * 跟踪当前正在执行的任务数（p-queue中正在运行的任务）
+     */
+    private runningJobs: number = 0;
+    /**
+     * @private
+     * 跟踪当前在 p-queue 中执行的消费任务数，用于并发控制。
+     * 单条模式下与 runningJobs 相同，批量模式下每一批计为一个任务
+     */
+    private runningTasks: number = 0;
+    /**
+     * @private
+     * 消费失败时的重试策略
+     */
+    private retryPolicy: RetryPolicy<TItem>;
+    /**
+     * @private
+     * 死信队列，存放耗尽重试次数的数据项
+     */
+    private deadLetters: DeadLetter<TItem>[] = [];
+    /**
+     * @private
+     * 死信记录对应的存储记录。死信在离开死信队列之前不会在存储中被确认
+     */
+    private deadLetterRecords: Map<DeadLetter<TItem>, StoredItem<TItem>> = new Map();
+    /**
+     * @private
+     * 死信队列的最大容量
+     */
+    private maxDeadLetters: number;
+    /**
+     * @private
+     * 默认的单次消费超时时长（毫秒），0 表示不限制
+     */
+    private consumeTimeoutMs: number;
+    /**
+     * @private
+     * 日志记录器
+     */
+    private logger: ProdConsLogger;
+    /**
+     * @private
+     * 缓冲区的持久化存储
+     */
+    private store: BufferStore<TItem>;
+    /**
+     * @private
+     * 下一条存储记录的编号
+     */
+    private nextStoreId: number = 1;
+    /**
+     * @private
+     * 用于中止进行中的生产和消费的控制器，在 clear() 后替换为新的实例
+     */
+    private abortController: AbortController = new AbortController();
+
+    /**
+     * 创建一个 ProdConsPQueue 实例。
+     * @param {ProdConsOptions} [options={}] - 配置选项。
+     * @param {number} [options.slotAmount=10] - 缓冲区的槽位数量。
+     * @param {number} [options.concurrency=1] - 消费者的并发数。
+     * @param {AdaptiveConcurrencyOptions} [options.adaptiveConcurrency] - 自适应并发控制。
+     * @param {number} [options.consumeTimeoutMs] - 单次消费的超时时长（毫秒）。
+     * @param {RetryPolicy} [options.retry] - 消费失败时的重试策略。
+     * @param {number} [options.maxDeadLetters=1000] - 死信队列的最大容量。
+     * @param {ProdConsLogger} [options.logger=console] - 日志记录器。
+     * @param {BufferStore} [options.store] - 缓冲区的持久化存储，默认为内存存储。
+     * @param {RateLimit} [options.produceRateLimit] - 生产速率限制。
+     * @param {RateLimit} [options.consumeRateLimit] - 消费速率限制。
+     * @param {boolean} [options.scheduledHoldsSlot=true] - 延迟的数据项在到期之前是否占用槽位。
+     */
+    constructor(options: ProdConsOptions<TItem> = {}) {
+        const {
+            slotAmount = 10,
+            concurrency = 1,
+            consumeTimeoutMs = 0,
+            retry = {},
+            maxDeadLetters = 1000,
+            logger = console,
+            store = new MemoryBufferStore<TItem>(),
+            produceRateLimit,
+            consumeRateLimit,
+            adaptiveConcurrency,
+            overflow = 'block',
+            scheduledHoldsSlot = true,
+            consumerGroupMode = 'competing',
+            dedupeKey,
+            dedupeStrategy = 'skip',
+            dedupeTtlMs = 0,
+            weight,
+            hooks = []
+        } = options;
+
+        this.concurrencyController = adaptiveConcurrency
+            ? new AdaptiveConcurrencyController(adaptiveConcurrency)
+            : null;
+        this.queue = new PQueue({
+            concurrency: this.concurrencyController?.clamp(concurrency) ?? concurrency,
+            autoStart: true
+        });
+        this.buffer = new PriorityBuffer();
+        this.slotAmount = slotAmount;
+        this.retryPolicy = retry;
+        this.maxDeadLetters = maxDeadLetters;
+        this.consumeTimeoutMs = consumeTimeoutMs;
+        this.logger = logger;
+        this.store = store;
+        this.produceLimiter = produceRateLimit ? new RateLimiter(produceRateLimit) : null;
+        this.consumeLimiter = consumeRateLimit ? new RateLimiter(consumeRateLimit) : null;
+        this.hooks = new Set(hooks);
+        this.overflow = overflow;
+        this.scheduledHoldsSlot = scheduledHoldsSlot;
+        this.consumerGroupMode = consumerGroupMode;
+        this.dedupeKey = dedupeKey ?? null;
+        this.dedupeStrategy = dedupeStrategy;
+        this.dedupeTtlMs = dedupeTtlMs;
+        this.weight = weight ?? null;
+        this.listeners = new Map([
+            ['free-slot-amount-change', new Set()],
+            ['blocked-state-change', new Set()],
+            ['destroy', new Set()],
+            ['empty', new Set()],
+            ['idle', new Set()],
+            ['item-consumed', new Set()],
+            ['item-failed', new Set()],
+            ['item-dead-lettered', new Set()],
+            ['timeout', new Set()],
+            ['close', new Set()],
+            ['error', new Set()],
+            ['rate-limited', new Set()],
+            ['concurrency-change', new Set()],
+            ['dropped', new Set()],
+            ['deduplicated', new Set()]
+        ]);
+        this.eventWaiters = new Map();
+        this.restoreFromStore();
+    }
+
+    /**
+     * @private
+     * 将存储中尚未确认的记录重新放入缓冲区。
+     */
+    private restoreFromStore(): void {
+        this.restoreRecords(this.store.load());
+    }
+
+    /**
+     * @private
+     * 将记录放入缓冲区，尚未到期的延迟数据项继续等待到期。
+     * 放入的数据项不受槽位限制，超出槽位数量时生产者会被阻塞，直到它们被消费。
+     * @param {StoredItem<TItem>[]} records - 已写入存储的记录。
+     */
+    private restoreRecords(records: StoredItem<TItem>[]): void {
+        const now = Date.now();
+        const joining: Array<{ entry: BufferEntry<TItem, TResult>, index: number }> = [];
+        for (const record of records) {
+            const entry: BufferEntry<TItem, TResult> = {
+                storeId: record.id,
+                enqueuedAt: Date.now(),
+                context: {
+                    id: record.id,
+                    stage: 'produce',
+                    item: record.item,
+                    attempt: 0,
+                    values: { ...record.context }
+                },
+                weight: this.weightOf(record.item),
+                item: record.item,
+                priority: record.priority,
+                timeoutMs: record.timeoutMs,
+                orderKey: record.orderKey,
+                partitionKey: record.partitionKey
+            };
+            if (record.runAt !== undefined && record.runAt > now) {
+                entry.runAt = record.runAt;
+                this.scheduleEntry(entry);
+            } else {
+                this.buffer.push(entry, record.priority, record.orderKey);
+                this.occupiedSlots += entry.weight;
+                joining.push({ entry, index: record.partitionIndex ?? 0 });
+            }
+            if (this.dedupeKey) {
+                entry.dedupeKey = this.dedupeKey(record.item);
+                this.dedupeIndex.set(entry.dedupeKey, entry);
+            }
+            this.nextStoreId = Math.max(this.nextStoreId, record.id + 1);
+        }
+        // 快照中的记录按出队顺序排列，按记录的分区位置恢复每个分区内的先后顺序；存储中的记录本身就按放入顺序排列
+        joining
+            .sort((a, b) => a.index - b.index)
+            .forEach(({ entry }) => this.joinPartition(entry));
+
+        this.previousBlocked = this.isBlocked();
+        this.previousEmpty = this.buffer.length === 0;
+        this.previousIdle = this.isIdle();
+    }
+
+    /**
+     * 动态设置缓冲区的槽位数量。
+     * @param {number} n - 新的槽位数量。
+     */
+    setSlotAmount(n: number): void {
+        this.slotAmount = n;
+        this.checkWaitingProducers();
+        this.notifyStateChange();
+    }
+
+    /**
+     * 获取当前设置的槽位总数。
+     * @returns {number} 当前的槽位数量。
+     */
+    getSlotAmount(): number {
+        return this.slotAmount;
+    }
+
+    /**
+     * 获取待处理的任务数（缓冲区中等待消费的项目数）。
+     * @returns {number} 待处理的任务数。
+     */
+    getPendingJobs(): number {
+        return this.buffer.length;
+    }
+
+    /**
+     * 获取当前正在执行的任务数。批量模式下为正在消费的数据项数。
+     * @returns {number} 正在执行的任务数。
+     */
+    getRunningJobs(): number {
+        return this.runningJobs;
+    }
+
+    /**
+     * 获取当前可用的空闲槽位数量。
+     * @returns {number} 空闲槽位的数量。
+     */
+    getFreeSlotAmount(): number {
+        return Math.max(0, this.slotAmount - this.occupiedSlots - this.reservedSlots);
+    }
+
+    /**
+     * 检查缓冲区是否已满（即生产者是否应被阻塞）。
+     * @returns {boolean} 如果缓冲区已满则返回 `true`，否则返回 `false`。
+     */
+    isBlocked(): boolean {
+        return (this.occupiedSlots + this.reservedSlots) >= this.slotAmount;
+    }
+
+    /**
+     * 检查队列是否空闲，即缓冲区为空、没有等待到期的延迟数据项，且没有正在消费的数据项。
+     * @returns {boolean} 如果队列空闲则返回 `true`，否则返回 `false`。
+     */
+    isIdle(): boolean {
+        return this.buffer.length === 0 && this.scheduled.length === 0 && this.runningJobs === 0;
+    }
+
+    /**
+     * 检查实例是否已调用过 `close()`（包括正在关闭的过程中）。
+     * @returns {boolean} 如果实例已关闭则返回 `true`，否则返回 `false`。
+     */
+    isClosed(): boolean {
+        return this.closing !== null;
+    }
+
+    /**
+     * 检查实例是否已被销毁或关闭完成，此后不会再产生消费结果。
+     * 异步迭代器和流适配器据此在创建时直接结束。
+     * @returns {boolean} 如果实例已被销毁或关闭完成则返回 `true`，否则返回 `false`。
+     */
+    isEnded(): boolean {
+        return this.destroyed || this.closed;
+    }
+
+    /**
+     * 等待直到有可用的空闲槽位。这是实现生产者背压的关键。
+     * 如果已有空闲槽位且没有其他生产者在等待，则立即解析；否则按到达顺序排队等待。
+     * 超时或被取消时，等待会被移除，不会再占用被释放的槽位。
+     * 设置了生产速率限制时，先等到有可用的许可（不占用许可），`timeoutMs` 涵盖这两段等待。
+     * @param {WaitOptions} [options={}] - 最长等待时长和取消信号。
+     * @throws {QueueDestroyedError} 如果实例已被销毁，或在等待期间被销毁。
+     * @throws {QueueClosedError} 如果实例已关闭，或在等待期间被关闭。
+     * @throws {QueueTimeoutError} 如果等待超过 `timeoutMs`。
+     * @returns {Promise<boolean>} 一个在有空闲槽位时解析为 `true` 的 Promise；`signal` 被中止时以中止原因拒绝。
+     */
+    async hasFreeSlot(options: WaitOptions = {}): Promise<boolean> {
+        if (!this.produceLimiter) {
+            await this.waitForSlot(options, 1, false);
+            return true;
+        }
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+        if (this.closing) {
+            throw new QueueClosedError();
+        }
+
+        // 限流等待和槽位等待共用同一个超时
+        const { timeoutMs = 0 } = options;
+        const timeout = new AbortController();
+        const timer = timeoutMs > 0
+            ? setTimeout(() => timeout.abort(new QueueTimeoutError(`hasFreeSlot timed out after ${timeoutMs}ms`, timeoutMs)), timeoutMs)
+            : undefined;
+        const { signal, unlink } = linkSignals(options.signal ? [timeout.signal, options.signal] : [timeout.signal]);
+        try {
+            await this.waitForProduceRate(signal, false);
+            await this.waitForSlot({ signal }, 1, false);
+        } finally {
+            clearTimeout(timer);
+            unlink();
+        }
+        return true;
+    }
+
+    /**
+     * @private
+     * 按到达顺序等待 `units` 个空闲槽位。`reserve` 为 `true` 时在拿到槽位的同一时刻预留它们，
+     * 使并发的生产者无法超出 `slotAmount`；预留的槽位由调用方在入队或失败时归还。
+     * 排在最前面的等待者放不下时，后面的等待者也不会被放行。
+     * @param {WaitOptions} options - 最长等待时长和取消信号。
+     * @param {number} units - 需要的槽位数。
+     * @param {boolean} reserve - 是否预留槽位。
+     * @param {boolean} [first=false] - 是否排在所有等待者之前，用于已经被放行过的生产者。
+     */
+    private async waitForSlot(
+        { timeoutMs = 0, signal }: WaitOptions,
+        units: number,
+        reserve: boolean,
+        first: boolean = false
+    ): Promise<void> {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+        if (this.closing) {
+            throw new QueueClosedError();
+        }
+        if (signal?.aborted) {
+            throw signal.reason;
+        }
+
+        if ((first || this.waitingForSlot.length === 0) && this.fits(units)) {
+            if (reserve) {
+                // 预留的槽位很快会转为由数据项占用，届时再统一通知状态变化
+                this.reservedSlots += units;
+            }
+            return;
+        }
+
+        const waitStartedAt = Date.now();
+        return new Promise((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const cleanup = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                const index = this.waitingForSlot.indexOf(waiter);
+                if (index !== -1) {
+                    this.waitingForSlot.splice(index, 1);
+                }
+            };
+            const waiter = {
+                resolve: () => {
+                    cleanup();
+                    this.metrics.recordProducerWait(Date.now() - waitStartedAt);
+                    resolve();
+                },
+                reject: (reason: unknown) => {
+                    cleanup();
+                    reject(reason);
+                },
+                units,
+                reserve
+            };
+            // 放弃等待后，排在后面、需要槽位更少的等待者可能已经放得下
+            const abandon = (reason: unknown) => {
+                waiter.reject(reason);
+                this.checkWaitingProducers();
+                this.notifyStateChange();
+            };
+            const onAbort = () => abandon(signal!.reason);
+
+            if (first) {
+                this.waitingForSlot.unshift(waiter);
+            } else {
+                this.waitingForSlot.push(waiter);
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+            if (timeoutMs > 0) {
+                timer = setTimeout(() => abandon(new QueueTimeoutError(`hasFreeSlot timed out after ${timeoutMs}ms`, timeoutMs)), timeoutMs);
+            }
+        });
+    }
+
+    /**
+     * @private
+     * 归还预留但未使用的槽位，并唤醒等待的生产者。
+     * @param {number} units - 归还的槽位数。
+     */
+    private releaseReservation(units: number): void {
+        this.reservedSlots -= units;
+        this.checkWaitingProducers();
+        this.notifyStateChange();
+    }
+
+    /**
+     * @private
+     * 判断再占用 `units` 个槽位是否不会超出 `slotAmount`。
+     * 超过槽位总数的数据项在其他槽位全部空闲时也视为放得下，避免永远等待。
+     * @param {number} units - 需要的槽位数。
+     * @param {number} [freed=0] - 假设会被释放的槽位数。
+     * @returns {boolean} 是否放得下。
+     */
+    private fits(units: number, freed: number = 0): boolean {
+        const used = this.occupiedSlots + this.reservedSlots - freed;
+        return used + units <= this.slotAmount || (used <= 0 && this.slotAmount > 0);
+    }
+
+    /**
+     * @private
+     * 计算数据项占用的槽位数。
+     * @param {TItem} item - 数据项。
+     * @returns {number} 槽位数。
+     */
+    private weightOf(item: TItem): number {
+        return this.weight ? this.weight(item) : 1;
+    }
+
+    /**
+     * 等待一个特定的事件被触发。
+     * @param {K} eventName - 要等待的事件名称。
+     * @param {(value: ProdConsEventMap[K]) => boolean} [condition] - 一个可选的条件函数。只有当事件值满足该条件时，Promise 才会解析。
+     * @throws {QueueDestroyedError} 如果实例已被销毁。
+     * @returns {Promise<ProdConsEventMap[K] | null>} 一个在事件触发且满足条件时，用事件值解析的 Promise；若实例在等待期间被销毁则以 `null` 解析。
+     */
+    async waitForEvent<K extends ProdConsEventName>(
+        eventName: K,
+        condition?: (value: ProdConsEventMap<TItem, TResult>[K]) => boolean
+    ): Promise<ProdConsEventMap<TItem, TResult>[K] | null> {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+
+        return new Promise((resolve) => {
+            if (!this.eventWaiters.has(eventName)) {
+                this.eventWaiters.set(eventName, []);
+            }
+            this.eventWaiters.get(eventName)!.push({ resolve, condition });
+        });
+    }
+
+    /**
+     * @private
+     * 通知并解决等待特定事件的 Promise。
+     * @param {K} eventName - 触发的事件名称。
+     * @param {ProdConsEventMap[K]} value - 传递给事件的值。
+     */
+    private notifyEventWaiters<K extends ProdConsEventName>(eventName: K, value: ProdConsEventMap<TItem, TResult>[K]): void {
+        const waiters = this.eventWaiters.get(eventName);
+        if (!waiters || waiters.length === 0) return;
+
+        const toRemove: number[] = [];
+        waiters.forEach((waiter, index) => {
+            let matched: boolean;
+            try {
+                matched = !waiter.condition || waiter.condition(value);
+            } catch (error) {
+                // 条件函数抛出异常时视为不满足，与监听器一样报告错误
+                this.reportListenerError(eventName, error);
+                matched = false;
+            }
+            if (matched) {
+                waiter.resolve(value);
+                toRemove.push(index);
+            }
+        });
+
+        // 从后往前删除，避免索引错乱
+        toRemove.reverse().forEach(index => {
+            waiters.splice(index, 1);
+        });
+    }
+
+    /**
+     * @private
+     * 在状态（如空闲槽位数、阻塞状态、空闲状态）变化时，发出相应的事件，
+     * 并在队列变为空闲时唤醒 waitForEmpty()/waitForConsumption() 的等待者。
+     */
+    private notifyStateChange(): void {
+        if (this.destroyed) return;
+
+        const currentFreeSlots = this.getFreeSlotAmount();
+        const currentBlocked = this.isBlocked();
+        const currentEmpty = this.buffer.length === 0;
+        const currentIdle = this.isIdle();
+
+        this.emit('free-slot-amount-change', currentFreeSlots);
+
+        if (currentBlocked !== this.previousBlocked) {
+            this.previousBlocked = currentBlocked;
+            this.emit('blocked-state-change', currentBlocked);
+        }
+
+        if (currentEmpty !== this.previousEmpty) {
+            this.previousEmpty = currentEmpty;
+            if (currentEmpty) {
+                this.emit('empty', undefined);
+            }
+        }
+
+        if (currentIdle !== this.previousIdle) {
+            this.previousIdle = currentIdle;
+            if (currentIdle) {
+                this.emit('idle', undefined);
+                Array.from(this.idleWaiters).forEach(waiter => waiter.resolve());
+            }
+        }
+    }
+
+    /**
+     * @private
+     * 检查是否有生产者在等待空闲槽位，并在有槽位时按到达顺序唤醒它们。
+     * 需要预留槽位的生产者在被唤醒的同时占用槽位，因此不会有更多的生产者被放行。
+     * 调用方负责随后调用 notifyStateChange()。
+     */
+    private checkWaitingProducers(): void {
+        while (this.waitingForSlot.length > 0 && this.fits(this.waitingForSlot[0].units)) {
+            const waiter = this.waitingForSlot.shift();
+            if (waiter) {
+                if (waiter.reserve) {
+                    this.reservedSlots += waiter.units;
+                }
+                waiter.resolve();
+            }
+        }
+    }
+
+    /**
+     * @private
+     * 以给定错误拒绝所有等待空闲槽位的生产者。
+     * @param {Error} reason - 拒绝原因。
+     * @returns {number} 被拒绝的生产者数量。
+     */
+    private rejectWaitingProducers(reason: Error): number {
+        const waiters = this.waitingForSlot;
+        this.waitingForSlot = [];
+        waiters.forEach(waiter => waiter.reject(reason));
+        return waiters.length;
+    }
+
+    /**
+     * 生产者方法。它会等待一个可用的槽位，然后执行生产函数 `fn`，
+     * 并将 `fn` 的返回值添加到缓冲区中。
+     * `fn` 会收到一个 `AbortSignal`，在 `clear()`、`destroy()`、以 `abort` 方式 `close()` 或 `options.signal` 被中止时被中止，此时本方法以中止原因拒绝。
+     * @param {ProduceFn<TItem>} fn - 一个返回 Promise 的生产函数，其解析值将被添加到缓冲区。
+     * @param {ProduceOptions} [options] - 可选参数，如优先级、排序键、消费超时、取消信号和等待槽位的超时。
+     * @throws {Error} 如果实例已被销毁，或生产过程被中止。
+     * @throws {QueueClosedError} 如果实例已关闭，或在等待槽位期间被关闭。
+     * @throws {QueueTimeoutError} 如果等待槽位超过 `options.timeoutMs`。
+     * @returns {Promise<void>} 一个在生产完成并入队后解析的 Promise。
+     */
+    async produce(fn: ProduceFn<TItem>, options?: ProduceOptions): Promise<void> {
+        await this.enqueue(fn, options);
+    }
+
+    /**
+     * 不等待槽位的生产：缓冲区已满（`isBlocked()` 为 `true`）或已有生产者在排队等待槽位时立即返回 `false`，不会调用生产函数；
+     * 否则与 `produce` 相同，数据项入队后返回 `true`。不占用槽位的延迟数据项总是入队。
+     * @param {ProduceFn<TItem>} fn - 一个返回 Promise 的生产函数，其解析值将被添加到缓冲区。
+     * @param {ProduceOptions} [options] - 可选参数，与 `produce` 相同。
+     * @throws {QueueDestroyedError} 如果实例已被销毁。
+     * @throws {QueueClosedError} 如果实例已关闭。
+     * @returns {Promise<boolean>} 数据项是否已入队。
+     */
+    async tryProduce(fn: ProduceFn<TItem>, options?: ProduceOptions): Promise<boolean> {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+        if (this.closing) {
+            throw new QueueClosedError();
+        }
+        const holdsSlot = this.resolveRunAt(options) === undefined || this.scheduledHoldsSlot;
+        if (holdsSlot && (this.isBlocked() || this.waitingForSlot.length > 0)) {
+            return false;
+        }
+
+        await this.enqueue(fn, options);
+        return true;
+    }
+
+    /**
+     * 与 `produce` 相同，但返回一个可跟踪该数据项消费结果的句柄。
+     * 句柄的 `result` 在数据项被消费后以消费函数的返回值解析，消费失败时以错误拒绝；
+     * 在数据项开始消费之前，可以通过 `cancel()` 将其从缓冲区中移除。
+     * @param {ProduceFn<TItem>} fn - 一个返回 Promise 的生产函数，其解析值将被添加到缓冲区。
+     * @param {ProduceOptions} [options] - 可选参数，如优先级、排序键和消费超时。
+     * @throws {Error} 如果实例已被销毁，或生产过程被中止。
+     * @throws {QueueClosedError} 如果实例已关闭，或在等待槽位期间被关闭。
+     * @returns {Promise<ProduceHandle<TItem, TResult>>} 一个在生产完成并入队后，以句柄解析的 Promise。
+     */
+    async produceTracked(fn: ProduceFn<TItem>, options?: ProduceOptions): Promise<ProduceHandle<TItem, TResult>> {
+        let settle!: NonNullable<BufferEntry<TItem, TResult>['settle']>;
+        const result = new Promise<TResult>((resolve, reject) => {
+            settle = { resolve, reject };
+        });
+        // 调用方可能只关心入队而不处理 result，避免产生未处理的拒绝
+        result.catch(() => {});
+
+        const entry = await this.enqueue(fn, options, settle);
+
+        return {
+            item: entry.item,
+            result,
+            cancel: () => this.cancelEntry(entry)
+        };
+    }
+
+    /**
+     * @private
+     * 等待空闲槽位，执行生产函数，并将结果包装为缓冲区项放入缓冲区。
+     * @param {ProduceFn<TItem>} fn - 生产函数。
+     * 延迟的数据项放入等待到期的队列，到期后再放入缓冲区。
+     * @param {ProduceOptions} [options={}] - 优先级、排序键、消费超时和延迟。
+     * @param {BufferEntry['settle']} [settle] - 可选的结果回调。
+     * @returns {Promise<BufferEntry<TItem, TResult>>} 已放入缓冲区的项。
+     */
+    private async enqueue(
+        fn: ProduceFn<TItem>,
+        options: ProduceOptions = {},
+        settle?: BufferEntry<TItem, TResult>['settle']
+    ): Promise<BufferEntry<TItem, TResult>> {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+        if (this.closing) {
+            throw new QueueClosedError();
+        }
+
+        const { priority = 0, orderKey, consumeTimeoutMs, signal: callerSignal, timeoutMs: waitTimeoutMs, partitionKey } = options;
+        if (callerSignal?.aborted) {
+            throw callerSignal.reason;
+        }
+
+        if (this.produceLimiter) {
+            await this.waitForProduceRate(callerSignal);
+        }
+        const runAt = this.resolveRunAt(options);
+        const holdsSlot = runAt === undefined || this.scheduledHoldsSlot;
+        // 阻塞策略下预留槽位，直到数据项入队或生产失败
+        const reserved = this.overflow === 'block' && holdsSlot;
+        if (reserved) {
+            await this.waitForSlot({ signal: callerSignal, timeoutMs: waitTimeoutMs }, 1, true);
+        }
+
+        const context: ItemContext<TItem> = {
+            id: this.nextStoreId++,
+            stage: 'produce',
+            item: undefined,
+            attempt: 0,
+            values: { ...options.context }
+        };
+        this.callHooks('beforeProduce', context);
+
+        const { signal, unlink } = linkSignals(
+            callerSignal ? [this.abortController.signal, callerSignal] : [this.abortController.signal]
+        );
+        let item: TItem;
+        let weight: number;
+        try {
+            item = await raceAbort(fn(signal), signal);
+            weight = this.weightOf(item);
+        } catch (error) {
+            if (reserved) {
+                this.releaseReservation(1);
+            }
+            this.callHooks('onError', context, error);
+            throw error;
+        } finally {
+            unlink();
+        }
+        context.item = item;
+
+        if (reserved && weight !== 1) {
+            // 按数据项的实际权重重新预留，仍排在所有等待者之前
+            this.reservedSlots--;
+            try {
+                await this.waitForSlot({ signal: callerSignal, timeoutMs: waitTimeoutMs }, weight, true, true);
+            } catch (error) {
+                this.checkWaitingProducers();
+                this.notifyStateChange();
+                this.callHooks('onError', context, error);
+                throw error;
+            }
+        }
+        if (reserved) {
+            // 预留的槽位转为由缓冲区中的数据项占用
+            this.reservedSlots -= weight;
+        }
+
+        const entry: BufferEntry<TItem, TResult> = {
+            storeId: context.id,
+            enqueuedAt: Date.now(),
+            context,
+            weight,
+            item,
+            priority,
+            timeoutMs: consumeTimeoutMs,
+            orderKey,
+            partitionKey,
+            runAt,
+            settle
+        };
+        if (this.dedupeKey) {
+            entry.dedupeKey = this.dedupeKey(item);
+            if (this.deduplicate(entry)) {
+                this.callHooks('afterProduce', context);
+                if (reserved) {
+                    // 数据项没有放入缓冲区，归还为它预留的槽位
+                    this.checkWaitingProducers();
+                    this.notifyStateChange();
+                }
+                return entry;
+            }
+        }
+        if (holdsSlot && this.overflow !== 'block' && !this.fits(weight) && !this.makeRoom(entry)) {
+            const error = new QueueOverflowError();
+            this.callHooks('onError', context, error);
+            if (this.overflow === 'reject') {
+                this.overflowCounts.rejected++;
+                throw error;
+            }
+            this.dropEntry(entry, 'drop-newest');
+            return entry;
+        }
+        this.persist(entry);
+        if (runAt !== undefined) {
+            this.scheduleEntry(entry);
+        } else {
+            this.buffer.push(entry, priority, orderKey);
+            this.occupiedSlots += weight;
+            this.joinPartition(entry);
+        }
+        if (this.dedupeKey) {
+            this.dedupeIndex.set(entry.dedupeKey, entry);
+        }
+        this.metrics.recordProduced();
+        this.callHooks('afterProduce', context);
+
+        // 实际权重小于预留的槽位时，多出的槽位可以放行其他生产者
+        this.checkWaitingProducers();
+        this.notifyStateChange();
+        this.scheduleConsumption();
+        return entry;
+    }
+
+    /**
+     * @private
+     * 将缓冲区项写入存储；编号相同的记录会被覆盖。
+     * @param {BufferEntry<TItem, TResult>} entry - 缓冲区项。
+     */
+    private persist(entry: BufferEntry<TItem, TResult>): void {
+        this.store.append(this.toRecord(entry));
+    }
+
+    /**
+     * @private
+     * 将缓冲区项转换为存储记录。
+     * @param {BufferEntry<TItem, TResult>} entry - 缓冲区项。
+     * @returns {StoredItem<TItem>} 存储记录。
+     */
+    private toRecord(entry: BufferEntry<TItem, TResult>): StoredItem<TItem> {
+        const values = entry.context.values;
+        return {
+            id: entry.storeId,
+            item: entry.item,
+            priority: entry.priority,
+            orderKey: entry.orderKey,
+            timeoutMs: entry.timeoutMs,
+            partitionKey: entry.partitionKey,
+            runAt: entry.runAt,
+            context: Object.keys(values).length > 0 ? values : undefined
+        };
+    }
+
+    /**
+     * @private
+     * 计算生产参数中的延迟对应的到期时间。
+     * @param {ProduceOptions} [options={}] - 生产参数。
+     * @returns {number | undefined} 到期时间戳；没有延迟或已经到期时返回 `undefined`。
+     */
+    private resolveRunAt({ delayMs, runAt }: ProduceOptions = {}): number | undefined {
+        const now = Date.now();
+        const at = runAt !== undefined
+            ? (runAt instanceof Date ? runAt.getTime() : runAt)
+            : (delayMs !== undefined ? now + delayMs : undefined);
+        return at !== undefined && at > now ? at : undefined;
+    }
+
+    /**
+     * @private
+     * 将设置了 `runAt` 的项放入等待到期的队列，并按需提前计时器。
+     * @param {BufferEntry<TItem, TResult>} entry - 延迟的项。
+     */
+    private scheduleEntry(entry: BufferEntry<TItem, TResult>): void {
+        this.scheduled.push(entry, 0, entry.runAt);
+        if (this.scheduledHoldsSlot) {
+            this.occupiedSlots += entry.weight;
+        }
+        this.armScheduleTimer();
+    }
+
+    /**
+     * @private
+     * 让计时器在最早的延迟数据项到期时触发；已经对准该时间时保持不变。
+     */
+    private armScheduleTimer(): void {
+        const next = this.scheduled.peek();
+        if (next && this.scheduleTimer !== null && this.scheduleTimerAt === next.runAt) {
+            return;
+        }
+        this.clearScheduleTimer();
+        if (!next || this.destroyed) {
+            return;
+        }
+
+        this.scheduleTimerAt = next.runAt!;
+        // setTimeout 的等待时长不能超过 2^31-1 毫秒，更晚的到期时间分多次等待
+        const delay = Math.min(Math.max(0, next.runAt! - Date.now()), MAX_TIMER_DELAY);
+        this.scheduleTimer = setTimeout(() => {
+            this.scheduleTimer = null;
+            this.releaseDueEntries();
+        }, delay);
+    }
+
+    /**
+     * @private
+     * 停止等待延迟数据项到期的计时器。
+     */
+    private clearScheduleTimer(): void {
+        if (this.scheduleTimer !== null) {
+            clearTimeout(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+    }
+
+    /**
+     * @private
+     * 将所有已到期的延迟数据项放入缓冲区并开始调度消费，排队耗时从到期时开始计算。
+     */
+    private releaseDueEntries(): void {
+        const now = Date.now();
+        let released = false;
+        for (let entry = this.scheduled.peek(); entry && entry.runAt! <= now; entry = this.scheduled.peek()) {
+            this.scheduled.shift();
+            delete entry.runAt;
+            entry.enqueuedAt = now;
+            this.buffer.push(entry, entry.priority, entry.orderKey);
+            if (!this.scheduledHoldsSlot) {
+                this.occupiedSlots += entry.weight;
+            }
+            this.joinPartition(entry);
+            released = true;
+        }
+
+        this.armScheduleTimer();
+        if (released) {
+            this.notifyStateChange();
+            this.scheduleConsumption();
+        }
+    }
+
+    /**
+     * @private
+     * 按去重策略处理新生产的数据项。
+     * 键与缓冲区中或正在消费的数据项相同时，新数据项被跳过、替换或合并到已有的数据项，
+     * 其 `produceTracked` 句柄随已有数据项的消费结果确定；键在最近消费结束的窗口内时被跳过，
+     * 句柄以 {@link QueueDuplicateError} 拒绝。
+     * @param {BufferEntry<TItem, TResult>} entry - 新生产、尚未放入缓冲区的项。
+     * @returns {boolean} 是否已被去重；为 `false` 时应正常放入缓冲区。
+     */
+    private deduplicate(entry: BufferEntry<TItem, TResult>): boolean {
+        const key = entry.dedupeKey;
+        const existing = this.dedupeIndex.get(key);
+        if (!existing) {
+            if (!this.isRecentKey(key)) {
+                return false;
+            }
+            this.dedupeCounts.skipped++;
+            entry.settle?.reject(new QueueDuplicateError());
+            this.emit('deduplicated', { item: entry.item, key, action: 'skip' });
+            return true;
+        }
+
+        const strategy = this.dedupeStrategy;
+        if (strategy !== 'skip') {
+            if (!this.buffer.has(existing) && !this.scheduled.has(existing)) {
+                return false;
+            }
+            const item = strategy === 'replace' ? entry.item : strategy.merge(existing.item, entry.item);
+            const weight = this.weightOf(item);
+            if (existing.runAt === undefined || this.scheduledHoldsSlot) {
+                this.occupiedSlots += weight - existing.weight;
+            }
+            existing.weight = weight;
+            existing.item = item;
+            existing.context.item = item;
+            this.persist(existing);
+        }
+
+        // 新数据项的结果跟随已有的数据项
+        const follower = entry.settle;
+        const leader = existing.settle;
+        if (follower) {
+            existing.settle = {
+                resolve: value => {
+                    leader?.resolve(value);
+                    follower.resolve(value);
+                },
+                reject: reason => {
+                    leader?.reject(reason);
+                    follower.reject(reason);
+                }
+            };
+        }
+
+        const action = strategy === 'skip' ? 'skip' : strategy === 'replace' ? 'replace' : 'merge';
+        if (action === 'skip') {
+            this.dedupeCounts.skipped++;
+        } else if (action === 'replace') {
+            this.dedupeCounts.replaced++;
+        } else {
+            this.dedupeCounts.merged++;
+        }
+        this.emit('deduplicated', { item: entry.item, key, action });
+        return true;
+    }
+
+    /**
+     * @private
+     * 判断键是否在最近消费结束的窗口内，同时清理已过期的键。
+     * @param {unknown} key - 去重键。
+     * @returns {boolean} 是否仍在窗口内。
+     */
+    private isRecentKey(key: unknown): boolean {
+        const now = Date.now();
+        for (const [recent, expiresAt] of this.recentKeys) {
+            if (expiresAt > now) {
+                break;
+            }
+            this.recentKeys.delete(recent);
+        }
+        return this.recentKeys.has(key);
+    }
+
+    /**
+     * @private
+     * 数据项离开缓冲区且不再消费时，释放它的分区和去重键。
+     * @param {BufferEntry<TItem, TResult>} entry - 缓冲区项。
+     * @param {boolean} [completed=false] - 是否因为消费结束而释放，此时按 `dedupeTtlMs` 继续记住其键。
+     */
+    private releaseKeys(entry: BufferEntry<TItem, TResult>, completed: boolean = false): void {
+        // 延迟的数据项到期之前没有记入分区
+        if (entry.runAt === undefined) {
+            this.leavePartition(entry);
+        }
+        if (!this.dedupeKey) {
+            return;
+        }
+        if (this.dedupeIndex.get(entry.dedupeKey) === entry) {
+            this.dedupeIndex.delete(entry.dedupeKey);
+        }
+        if (completed && this.dedupeTtlMs > 0) {
+            // 重新插入，使 recentKeys 保持按过期时间排列
+            this.recentKeys.delete(entry.dedupeKey);
+            this.recentKeys.set(entry.dedupeKey, Date.now() + this.dedupeTtlMs);
+        }
+    }
+
+    /**
+     * @private
+     * 将仍在缓冲区中或等待到期的项移除，并以取消错误拒绝其结果。
+     * @param {BufferEntry<TItem, TResult>} entry - 要取消的缓冲区项。
+     * @returns {boolean} 是否取消成功。
+     */
+    private cancelEntry(entry: BufferEntry<TItem, TResult>): boolean {
+        if (this.buffer.remove(entry)) {
+            this.occupiedSlots -= entry.weight;
+        } else if (this.scheduled.remove(entry)) {
+            if (this.scheduledHoldsSlot) {
+                this.occupiedSlots -= entry.weight;
+            }
+            this.armScheduleTimer();
+        } else {
+            return false;
+        }
+        this.releaseKeys(entry);
+
+        this.store.ack(entry.storeId);
+        entry.settle?.reject(new QueueCancelledError());
+
+        this.checkWaitingProducers();
+        this.notifyStateChange();
+        return true;
+    }
+
+    /**
+     * @private
+     * 缓冲区已满时按溢出策略从缓冲区中丢弃数据项，为新数据项腾出足够的槽位。
+     * 即使丢弃缓冲区中的所有数据项也放不下时，不丢弃任何数据项。
+     * @param {BufferEntry<TItem, TResult>} entry - 新生产的缓冲区项。
+     * @returns {boolean} 是否已经腾出槽位；为 `false` 时新数据项不能放入缓冲区。
+     */
+    private makeRoom(entry: BufferEntry<TItem, TResult>): boolean {
+        const overflow = this.overflow;
+        if (overflow === 'reject' || overflow === 'drop-newest') {
+            return false;
+        }
+
+        const buffered = this.buffer.toArray();
+        const bufferedSlots = buffered.reduce((sum, other) => sum + other.weight, 0);
+        if (buffered.length === 0 || !this.fits(entry.weight, bufferedSlots)) {
+            return false;
+        }
+
+        if (typeof overflow === 'object') {
+            const key = overflow.coalesce(entry.item);
+            const match = buffered.find(other => Object.is(overflow.coalesce(other.item), key));
+            if (match) {
+                this.evictEntry(match, 'coalesce');
+                buffered.splice(buffered.indexOf(match), 1);
+            }
+        }
+
+        // 按放入缓冲区的先后顺序丢弃，直到放得下
+        buffered.sort((a, b) => a.storeId - b.storeId);
+        for (const oldest of buffered) {
+            if (this.fits(entry.weight)) {
+                break;
+            }
+            this.evictEntry(oldest, 'drop-oldest');
+        }
+        return true;
+    }
+
+    /**
+     * @private
+     * 将一个数据项从缓冲区和存储中移除，并作为被丢弃的数据项处理。
+     * @param {BufferEntry<TItem, TResult>} entry - 被丢弃的缓冲区项。
+     * @param {DroppedEvent['reason']} reason - 丢弃的原因。
+     */
+    private evictEntry(entry: BufferEntry<TItem, TResult>, reason: DroppedEvent['reason']): void {
+        this.buffer.remove(entry);
+        this.occupiedSlots -= entry.weight;
+        this.releaseKeys(entry);
+        this.store.ack(entry.storeId);
+        this.dropEntry(entry, reason);
+    }
+
+    /**
+     * @private
+     * 以 {@link QueueOverflowError} 拒绝被丢弃的数据项的结果，更新计数并触发 'dropped' 事件。
+     * @param {BufferEntry<TItem, TResult>} entry - 被丢弃的缓冲区项。
+     * @param {DroppedEvent['reason']} reason - 丢弃的原因。
+     */
+    private dropEntry(entry: BufferEntry<TItem, TResult>, reason: DroppedEvent['reason']): void {
+        if (reason === 'coalesce') {
+            this.overflowCounts.coalesced++;
+        } else {
+            this.overflowCounts.dropped++;
+        }
+        entry.settle?.reject(new QueueOverflowError());
+        this.emit('dropped', { item: entry.item, reason });
+    }
+
+    /**
+     * @private
+     * 将缓冲区中和等待到期的所有项移除，并以给定错误拒绝它们的结果。
+     * @param {Error} reason - 拒绝原因。
+     */
+    private discardBuffer(reason: Error): void {
+        const entries = this.buffer.clear();
+        entries.forEach(entry => {
+            this.occupiedSlots -= entry.weight;
+            this.releaseKeys(entry);
+            entry.settle?.reject(reason);
+        });
+        this.clearScheduleTimer();
+        this.scheduled.clear().forEach(entry => {
+            if (this.scheduledHoldsSlot) {
+                this.occupiedSlots -= entry.weight;
+            }
+            this.releaseKeys(entry);
+            entry.settle?.reject(reason);
+        });
+        // 已分发给消费者组、尚未开始消费的数据项同样被丢弃
+        this.groups.forEach(group => {
+            group.backlog.splice(0).forEach(entry => this.finishDelivery(entry, { status: 'aborted', reason }));
+        });
+    }
+
+    /**
+     * @private
+     * 将放入缓冲区的数据项记入其分区。
+     * @param {BufferEntry<TItem, TResult>} entry - 新放入缓冲区的项。
+     */
+    private joinPartition(entry: BufferEntry<TItem, TResult>): void {
+        if (entry.partitionKey === undefined) {
+            return;
+        }
+        const partition = this.partitions.get(entry.partitionKey);
+        if (partition) {
+            partition.pending.push(entry);
+        } else {
+            this.partitions.set(entry.partitionKey, { pending: [entry], running: null });
+        }
+    }
+
+    /**
+     * @private
+     * 将离开缓冲区或结束消费的数据项从其分区中移除。
+     * 只有占用分区的数据项结束时才会释放分区，取消或丢弃同一分区中等待的数据项不影响正在进行的消费。
+     * @param {BufferEntry<TItem, TResult>} entry - 离开的项。
+     * @param {boolean} [running=false] - 是否因为开始消费而离开，此时该分区被占用到消费结束。
+     */
+    private leavePartition(entry: BufferEntry<TItem, TResult>, running: boolean = false): void {
+        if (entry.partitionKey === undefined) {
+            return;
+        }
+        const partition = this.partitions.get(entry.partitionKey);
+        if (!partition) {
+            return;
+        }
+        const index = partition.pending.indexOf(entry);
+        if (index !== -1) {
+            partition.pending.splice(index, 1);
+        }
+        if (running) {
+            partition.running = entry;
+        } else if (partition.running === entry) {
+            partition.running = null;
+        }
+        if (partition.running === null && partition.pending.length === 0) {
+            this.partitions.delete(entry.partitionKey);
+        }
+    }
+
+    /**
+     * @private
+     * 找出下一个可以开始消费的缓冲区项：按出队顺序跳过分区正在消费、
+     * 或者同一分区中还有更早放入的数据项的项。
+     * @returns {BufferEntry<TItem, TResult> | undefined} 可以消费的项，没有时返回 `undefined`。
+     */
+    private nextEntry(): BufferEntry<TItem, TResult> | undefined {
+        if (this.partitions.size === 0) {
+            return this.buffer.peek();
+        }
+        return this.buffer.find(entry => {
+            if (entry.partitionKey === undefined) {
+                return true;
+            }
+            const partition = this.partitions.get(entry.partitionKey)!;
+            return partition.running === null && partition.pending[0] === entry;
+        });
+    }
+
+    /**
+     * @private
+     * 将缓冲区项取出开始消费，其分区在消费结束前不会调度其他数据项。
+     * @param {BufferEntry<TItem, TResult>} entry - 由 `nextEntry()` 找到的项。
+     */
+    private takeEntry(entry: BufferEntry<TItem, TResult>): void {
+        this.buffer.remove(entry);
+        this.leavePartition(entry, true);
+        this.metrics.queueLatency.record(Date.now() - entry.enqueuedAt);
+    }
+
+    /**
+     * 从同步或异步可迭代对象中逐个取值并生产，直到其耗尽。
+     * 只有在有空闲槽位时才会从 `source` 拉取下一个值，因此 `source` 的读取速度受队列背压控制。
+     * @param {AsyncIterable<TItem> | Iterable<TItem>} source - 数据来源，例如异步生成器或 Node.js 可读流。
+     * @param {ProduceOptions} [options] - 应用到每个数据项的生产参数。
+     * @throws {QueueDestroyedError} 如果实例已被销毁。
+     * @returns {Promise<number>} 生产的数据项数量。
+     */
+    async fromAsyncIterable(source: AsyncIterable<TItem> | Iterable<TItem>, options?: ProduceOptions): Promise<number> {
+        let count = 0;
+
+        await this.hasFreeSlot();
+        for await (const value of source) {
+            await this.produce(async () => value, options);
+            count++;
+            await this.hasFreeSlot();
+        }
+        return count;
+    }
+
+    /**
+     * 以异步迭代的方式拉取消费结果，按数据项被成功消费的顺序产出消费函数的返回值。
+     * 只能拿到开始迭代之后完成的结果；失败的数据项不会产出。
+     * 实例被销毁或关闭完成后迭代结束，在此之后创建的迭代器直接结束。尚未被拉取的结果暂存在迭代器中，不占用槽位。
+     *
+     * @example
+     * ```typescript
+     * for await (const result of queue) {
+     *   console.log('Consumed:', result);
+     * }
+     * ```
+     * @returns {AsyncIterator<TResult>} 消费结果的异步迭代器。
+     */
+    [Symbol.asyncIterator](): AsyncIterator<TResult> {
+        const results: TResult[] = [];
+        let finished = this.isEnded();
+        let wake: (() => void) | null = null;
+
+        const onConsumed = ({ result }: ItemConsumedEvent<TItem, TResult>) => {
+            results.push(result);
+            wake?.();
+        };
+        const onDestroy = () => {
+            finished = true;
+            wake?.();
+        };
+        const cleanup = () => {
+            finished = true;
+            this.off('item-consumed', onConsumed);
+            this.off('destroy', onDestroy);
+            this.off('close', onDestroy);
+        };
+
+        this.on('item-consumed', onConsumed);
+        this.on('destroy', onDestroy);
+        this.on('close', onDestroy);
+
+        return {
+            next: async (): Promise<IteratorResult<TResult>> => {
+                while (results.length === 0 && !finished) {
+                    await new Promise<void>(resolve => {
+                        wake = resolve;
+                    });
+                    wake = null;
+                }
+                if (results.length > 0) {
+                    return { value: results.shift()!, done: false };
+                }
+                cleanup();
+                return { value: undefined, done: true };
+            },
+            return: async (): Promise<IteratorResult<TResult>> => {
+                cleanup();
+                results.length = 0;
+                wake?.();
+                return { value: undefined, done: true };
+            }
+        };
+    }
+
+    /**
+     * 设置消费者函数并开始消费过程。
+     * 消费函数的第二个参数是 `AbortSignal`，在消费超时、`clear()` 或 `destroy()` 时被中止。
+     * 会替换之前通过 `consume`、`consumeBatch` 或 `consumeGroup` 设置的消费者。
+     * @param {ConsumeFn<TItem, TResult>} fn - 一个处理单个数据项的异步函数。
+     * @throws {QueueDestroyedError} 如果实例已被销毁。
+     */
+    consume(fn: ConsumeFn<TItem, TResult>): void {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+
+        this.consumeFn = fn;
+        this.batchConsumer = null;
+        this.clearBatchTimer();
+        this.removeAllGroups();
+        this.consuming = true;
+        this.scheduleConsumption();
+    }
+
+    /**
+     * 以批量模式设置消费者函数并开始消费过程。
+     * 缓冲区中的数据项按优先级分组成批，当凑满 `maxSize` 个或最早等待的数据项等待超过 `maxWaitMs` 时提交一批。
+     * 每一批占用一个并发名额，批中的每个数据项各占用一个槽位，直到该数据项的结果确定。
+     * 消费函数可以返回与输入等长的 `PromiseSettledResult` 数组来逐项报告成功或失败；
+     * 返回 `void` 表示整批成功（每项结果为 `undefined`），抛出错误表示整批失败。
+     * 失败的数据项按重试策略单独重试，耗尽重试次数后进入死信队列。
+     * 会替换之前通过 `consume`、`consumeBatch` 或 `consumeGroup` 设置的消费者。
+     * @param {BatchConsumeFn<TItem, TResult>} fn - 一个处理一批数据项的异步函数。
+     * @param {BatchOptions} [options={}] - 批量参数。
+     * @throws {QueueDestroyedError} 如果实例已被销毁。
+     */
+    consumeBatch(fn: BatchConsumeFn<TItem, TResult>, options: BatchOptions = {}): void {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+
+        const { maxSize = 10, maxWaitMs = 0 } = options;
+
+        this.consumeFn = null;
+        this.batchConsumer = { fn, maxSize: Math.max(1, maxSize), maxWaitMs };
+        this.clearBatchTimer();
+        this.removeAllGroups();
+        this.consuming = true;
+        this.scheduleConsumption();
+    }
+
+    /**
+     * 注册一个消费者组并开始消费；组名已存在时替换该组的消费函数和参数，保留其进度。
+     * 每个组有自己的并发数，不受 `concurrency` 和 `setConcurrency` 影响，可以通过 `pauseGroup`/`resumeGroup` 单独暂停。
+     * 分发方式由 `ProdConsOptions.consumerGroupMode` 决定：
+     * `'competing'` 模式下每个数据项只交给一个组，按权重分配；
+     * `'broadcast'` 模式下每个数据项交给注册时已存在的每个组，所有组都结束后数据项才确定结果并释放槽位，
+     * 任何一个组耗尽重试次数时数据项进入死信队列，否则以最后完成的组的结果确定结果并触发一次 'item-consumed' 事件。
+     * `'broadcast'` 模式下每个组收到数据项上下文的一份副本（共享 `values`），消费钩子按组各调用一次：
+     * 每个 `beforeConsume` 都有对应的 `afterConsume` 或 `onError`。
+     * 注册消费者组会替换 `consume`/`consumeBatch` 设置的消费者，反之亦然。
+     * @param {string} name - 组名。
+     * @param {ConsumeFn<TItem, TResult>} fn - 该组处理单个数据项的异步函数。
+     * @param {ConsumerGroupOptions} [options={}] - 该组的并发数和权重。
+     * @throws {QueueDestroyedError} 如果实例已被销毁。
+     */
+    consumeGroup(name: string, fn: ConsumeFn<TItem, TResult>, options: ConsumerGroupOptions = {}): void {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+
+        const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+        const weight = options.weight ?? 1;
+        const group = this.groups.get(name);
+        if (group) {
+            Object.assign(group, { fn, concurrency, weight });
+        } else {
+            this.groups.set(name, {
+                fn,
+                concurrency,
+                weight,
+                paused: false,
+                running: 0,
+                backlog: [],
+                currentWeight: 0,
+                consumed: 0,
+                failed: 0
+            });
+        }
+
+        this.consumeFn = null;
+        this.batchConsumer = null;
+        this.clearBatchTimer();
+        this.consuming = true;
+        this.scheduleConsumption();
+    }
+
+    /**
+     * 移除一个消费者组。该组正在消费的数据项会继续完成；
+     * `'broadcast'` 模式下已分发给该组、尚未开始消费的数据项不再等待该组。
+     * @param {string} name - 组名。
+     * @returns {boolean} 该组是否存在并已被移除。
+     */
+    removeConsumerGroup(name: string): boolean {
+        const group = this.groups.get(name);
+        if (!group) {
+            return false;
+        }
+
+        this.groups.delete(name);
+        group.backlog.splice(0).forEach(entry => this.finishDelivery(entry, { status: 'skipped' }));
+        this.scheduleConsumption();
+        return true;
+    }
+
+    /**
+     * 暂停一个消费者组。该组正在消费的数据项会继续完成，但不会再开始新的数据项；
+     * `'broadcast'` 模式下分发给它的数据项会在其积压中等待并继续占用槽位。
+     * @param {string} name - 组名。
+     * @returns {boolean} 该组是否存在。
+     */
+    pauseGroup(name: string): boolean {
+        const group = this.groups.get(name);
+        if (!group) {
+            return false;
+        }
+        group.paused = true;
+        return true;
+    }
+
+    /**
+     * 恢复一个被 `pauseGroup` 暂停的消费者组。
+     * @param {string} name - 组名。
+     * @returns {boolean} 该组是否存在。
+     */
+    resumeGroup(name: string): boolean {
+        const group = this.groups.get(name);
+        if (!group) {
+            return false;
+        }
+        group.paused = false;
+        this.scheduleConsumption();
+        return true;
+    }
+
+    /**
+     * @private
+     * 移除所有消费者组。
+     */
+    private removeAllGroups(): void {
+        Array.from(this.groups.keys()).forEach(name => this.removeConsumerGroup(name));
+    }
+
+    /**
+     * @private
+     * 核心调度逻辑。当缓冲区有数据且 p-queue 有能力处理更多任务时，
+     * 从缓冲区按优先级取出数据并将其作为任务添加到 p-queue 中。
+     */
+    private scheduleConsumption(): void {
+        if (!this.consuming || this.paused || this.destroyed) {
+            return;
+        }
+
+        if (this.batchConsumer) {
+            this.scheduleBatches(this.batchConsumer);
+            return;
+        }
+
+        if (this.groups.size > 0) {
+            this.scheduleGroups();
+            return;
+        }
+
+        const consumeFn = this.consumeFn;
+        if (!consumeFn) {
+            return;
+        }
+
+        // 持续调度消费任务，直到缓冲区为空或 p-queue 并发达到上限
+        while (this.buffer.length > 0 && this.runningTasks < this.queue.concurrency) {
+            // 剩下的数据项所在的分区都在消费中时，等它们结束后再调度
+            const entry = this.nextEntry();
+            if (entry === undefined || !this.acquireConsumeRate()) {
+                break;
+            }
+            this.takeEntry(entry);
+            this.runningTasks++;
+            this.runningJobs++;
+            this.notifyStateChange(); // 缓冲区减少，运行任务增加，状态更新
+
+            // 将消费任务添加到 PQueue 中，并沿用数据项的优先级
+            this.queue.add(async () => {
+                try {
+                    await this.runConsumer(consumeFn, entry);
+                } finally {
+                    // 消费完成后清理
+                    this.runningTasks--;
+                    this.releaseJobs([entry]);
+
+                    // 使用 setImmediate 尝试调度更多任务，避免同步递归过深
+                    setImmediate(() => this.scheduleConsumption());
+                }
+            }, { priority: entry.priority });
+        }
+    }
+
+    /**
+     * @private
+     * 批量模式下的调度逻辑。只有当缓冲区凑满一批、或最早放入的数据项等待满 `maxWaitMs` 时才提交一批；
+     * 否则启动一个计时器，在该数据项等待满 `maxWaitMs` 时再次调度。
+     * @param {BatchConsumer<TItem, TResult>} consumer - 当前的批量消费者。
+     */
+    private scheduleBatches(consumer: BatchConsumer<TItem, TResult>): void {
+        while (this.buffer.length > 0 && this.runningTasks < this.queue.concurrency) {
+            const due = this.buffer.length >= consumer.maxSize
+                || consumer.maxWaitMs <= 0
+                || this.batchFlushDue;
+            if (!due || this.nextEntry() === undefined || !this.acquireConsumeRate()) {
+                break;
+            }
+
+            // 同一分区在一批中最多出现一次
+            const entries: BufferEntry<TItem, TResult>[] = [];
+            for (let entry = this.nextEntry(); entry !== undefined && entries.length < consumer.maxSize; entry = this.nextEntry()) {
+                this.takeEntry(entry);
+                entries.push(entry);
+            }
+
+            this.batchFlushDue = false;
+            this.clearBatchTimer();
+            this.runningTasks++;
+            this.runningJobs += entries.length;
+            this.notifyStateChange();
+
+            this.queue.add(async () => {
+                const settled = new Set<BufferEntry<TItem, TResult>>();
+                try {
+                    await this.runBatch(consumer.fn, entries, settled);
+                } finally {
+                    this.runningTasks--;
+                    this.releaseJobs(entries.filter(entry => !settled.has(entry)));
+                    setImmediate(() => this.scheduleConsumption());
+                }
+            });
+        }
+
+        // 缓冲区中还有不足一批的数据项，等待它们凑满，或者最早放入的数据项等待满 maxWaitMs
+        if (this.buffer.length > 0 && !this.batchFlushDue && this.batchTimer === null) {
+            const oldest = this.buffer.values().reduce((min, entry) => Math.min(min, entry.enqueuedAt), Infinity);
+            this.batchTimer = setTimeout(() => {
+                this.batchTimer = null;
+                this.batchFlushDue = true;
+                this.scheduleConsumption();
+            }, Math.max(0, oldest + consumer.maxWaitMs - Date.now()));
+        }
+    }
+
+    /**
+     * @private
+     * 消费者组模式下的调度逻辑。
+     * `'competing'` 模式下按平滑加权轮询为每个数据项选择一个有空闲并发的组；
+     * `'broadcast'` 模式下只在某个有空闲并发的组已经处理完自己的积压时才从缓冲区取出下一个数据项，
+     * 使缓冲区中的优先级顺序尽量得到保持。
+     */
+    private scheduleGroups(): void {
+        const groups = Array.from(this.groups.values());
+        const available = (group: ConsumerGroup<TItem, TResult>) => !group.paused && group.running < group.concurrency;
+
+        if (this.consumerGroupMode === 'competing') {
+            while (this.buffer.length > 0 && groups.some(available)) {
+                const entry = this.nextEntry();
+                if (entry === undefined || !this.acquireConsumeRate()) {
+                    break;
+                }
+                this.takeEntry(entry);
+                this.runningJobs++;
+                this.notifyStateChange();
+                this.runDelivery(this.pickGroup(groups.filter(available)), entry);
+            }
+            return;
+        }
+
+        groups.forEach(group => this.drainGroup(group));
+        while (this.buffer.length > 0 && groups.some(group => available(group) && group.backlog.length === 0)) {
+            const entry = this.nextEntry();
+            if (entry === undefined || !this.acquireConsumeRate()) {
+                break;
+            }
+            this.takeEntry(entry);
+            this.runningJobs++;
+            entry.broadcast = { remaining: groups.length };
+            groups.forEach(group => group.backlog.push(entry));
+            this.notifyStateChange();
+            groups.forEach(group => this.drainGroup(group));
+        }
+    }
+
+    /**
+     * @private
+     * 平滑加权轮询：每个候选组的当前权重加上其权重，选出当前权重最大的组，并从中减去权重总和。
+     * @param {ConsumerGroup<TItem, TResult>[]} candidates - 有空闲并发的组，至少一个。
+     * @returns {ConsumerGroup<TItem, TResult>} 选中的组。
+     */
+    private pickGroup(candidates: ConsumerGroup<TItem, TResult>[]): ConsumerGroup<TItem, TResult> {
+        let total = 0;
+        let best = candidates[0];
+        candidates.forEach(group => {
+            group.currentWeight += group.weight;
+            total += group.weight;
+            if (group.currentWeight > best.currentWeight) {
+                best = group;
+            }
+        });
+        best.currentWeight -= total;
+        return best;
+    }
+
+    /**
+     * @private
+     * `'broadcast'` 模式下在组的并发上限内开始消费其积压的数据项。
+     * @param {ConsumerGroup<TItem, TResult>} group - 消费者组。
+     */
+    private drainGroup(group: ConsumerGroup<TItem, TResult>): void {
+        while (!group.paused && group.running < group.concurrency && group.backlog.length > 0) {
+            this.runDelivery(group, group.backlog.shift()!);
+        }
+    }
+
+    /**
+     * @private
+     * 由一个消费者组消费一个数据项，并更新该组的进度。
+     * `'competing'` 模式下结束时释放数据项的槽位；`'broadcast'` 模式下由最后一个结束的组释放。
+     * @param {ConsumerGroup<TItem, TResult>} group - 消费者组。
+     * @param {BufferEntry<TItem, TResult>} entry - 要消费的缓冲区项。
+     */
+    private runDelivery(group: ConsumerGroup<TItem, TResult>, entry: BufferEntry<TItem, TResult>): void {
+        group.running++;
+        // 'broadcast' 模式下各组的 stage、attempt 和钩子互不干扰，values 仍然共享
+        const context = entry.broadcast ? { ...entry.context } : entry.context;
+        void (async () => {
+            try {
+                const outcome = await this.runConsumer(group.fn, entry, context);
+                if (outcome === 'consumed') {
+                    group.consumed++;
+                } else if (outcome === 'failed') {
+                    group.failed++;
+                }
+            } finally {
+                group.running--;
+                if (!entry.broadcast) {
+                    this.releaseJobs([entry]);
+                }
+                setImmediate(() => this.scheduleConsumption());
+            }
+        })();
+    }
+
+    /**
+     * @private
+     * `'broadcast'` 模式下记录一个组处理完数据项的结果。所有组都结束后确定数据项的结果并释放槽位：
+     * 被中止时以中止原因拒绝；有组耗尽重试次数时进入死信队列；否则以最后成功的组的结果确定结果。
+     * 分发数据项的组会立即开始消费它，因此每个数据项至少被一个组消费过。
+     * @param {BufferEntry<TItem, TResult>} entry - 缓冲区项。
+     * @param {DeliveryOutcome<TResult>} outcome - 该组的处理结果。
+     */
+    private finishDelivery(entry: BufferEntry<TItem, TResult>, outcome: DeliveryOutcome<TResult>): void {
+        const broadcast = entry.broadcast!;
+        broadcast.remaining--;
+        if (outcome.status === 'consumed') {
+            broadcast.result = outcome.result;
+        } else if (outcome.status === 'failed') {
+            broadcast.failure ??= { error: outcome.error, attempts: outcome.attempts };
+        } else if (outcome.status === 'aborted') {
+            broadcast.aborted ??= { reason: outcome.reason };
+        }
+        if (broadcast.remaining > 0) {
+            return;
+        }
+
+        if (broadcast.aborted) {
+            entry.settle?.reject(broadcast.aborted.reason);
+        } else if (broadcast.failure) {
+            this.failEntry(entry, broadcast.failure.error, broadcast.failure.attempts);
+        } else {
+            this.settleSuccess(entry, broadcast.result as TResult);
+        }
+        this.releaseJobs([entry]);
+    }
+
+    /**
+     * 动态设置消费者的并发数。调高时立即调度更多数据项；
+     * 调低时不会中断正在消费的数据项，它们完成后并发数自然降到新的值。
+     * 启用自适应并发控制时，之后的自动调整从这个值开始。
+     * @param {number} n - 新的并发数，至少为 1。
+     */
+    setConcurrency(n: number): void {
+        this.applyConcurrency(n, 'manual');
+    }
+
+    /**
+     * 获取当前的并发数。
+     * @returns {number} 并发数。
+     */
+    getConcurrency(): number {
+        return this.queue.concurrency;
+    }
+
+    /**
+     * @private
+     * 设置并发数，触发 'concurrency-change' 事件并重新调度。
+     * @param {number} n - 新的并发数。
+     * @param {ConcurrencyChangeEvent['reason']} reason - 调整的来源。
+     */
+    private applyConcurrency(n: number, reason: ConcurrencyChangeEvent['reason']): void {
+        const previous = this.queue.concurrency;
+        const current = Math.max(1, Math.floor(n));
+        if (current === previous) {
+            return;
+        }
+
+        this.queue.concurrency = current;
+        this.emit('concurrency-change', { previous, current, reason });
+        this.scheduleConsumption();
+    }
+
+    /**
+     * @private
+     * 记录一次消费函数调用的耗时，并报告给自适应并发控制器，按其建议调整并发数。
+     * 被中止的消费不应报告。
+     * @param {number} startedAt - 本次消费开始的时间。
+     * @param {boolean} ok - 本次消费是否成功。
+     */
+    private recordConsumption(startedAt: number, ok: boolean): void {
+        const durationMs = Date.now() - startedAt;
+        this.metrics.consumeDuration.record(durationMs);
+
+        if (!this.concurrencyController || this.destroyed) {
+            return;
+        }
+
+        const next = this.concurrencyController.record(durationMs, ok, this.queue.concurrency);
+        if (next !== null) {
+            this.applyConcurrency(next, 'adaptive');
+        }
+    }
+
+    /**
+     * 调整生产或消费一侧的速率限制，立即生效。限流器的状态会被重置（令牌桶重新装满）。
+     * @param {'produce' | 'consume'} side - 要调整的一侧。
+     * @param {RateLimit | null} limit - 新的速率限制，`null` 表示取消限流。
+     */
+    setRateLimit(side: 'produce' | 'consume', limit: RateLimit | null): void {
+        const limiter = limit ? new RateLimiter(limit) : null;
+
+        if (side === 'produce') {
+            this.produceLimiter = limiter;
+            // 让正在等待的生产者按新的限制重新计算
+            Array.from(this.rateSleepers).forEach(wake => wake());
+        } else {
+            this.consumeLimiter = limiter;
+            this.clearRateTimer();
+            this.scheduleConsumption();
+        }
+    }
+
+    /**
+     * @private
+     * 按生产速率限制等待一次许可。等待期间实例被销毁、关闭或清空，或调用方的信号被中止时以相应的原因拒绝。
+     * @param {AbortSignal} [signal] - 调用方的取消信号。
+     * @param {boolean} [acquire=true] - 是否占用许可；为 `false` 时只等到有可用的许可。
+     */
+    private async waitForProduceRate(signal?: AbortSignal, acquire: boolean = true): Promise<void> {
+        for (;;) {
+            const waitMs = (acquire ? this.produceLimiter?.tryAcquire() : this.produceLimiter?.getState().waitMs) ?? 0;
+            if (waitMs <= 0) {
+                return;
+            }
+
+            this.emit('rate-limited', { side: 'produce', waitMs });
+            await this.sleepForRate(waitMs, signal);
+
+            if (this.destroyed) {
+                throw new QueueDestroyedError();
+            }
+            if (this.closing) {
+                throw new QueueClosedError();
+            }
+        }
+    }
+
+    /**
+     * @private
+     * 等待给定时长，可被 setRateLimit() 提前唤醒，或被队列级的中止信号和调用方的信号打断。
+     * @param {number} ms - 等待时长（毫秒）。
+     * @param {AbortSignal} [callerSignal] - 调用方的取消信号。
+     */
+    private sleepForRate(ms: number, callerSignal?: AbortSignal): Promise<void> {
+        const { signal, unlink } = linkSignals(
+            callerSignal ? [this.abortController.signal, callerSignal] : [this.abortController.signal]
+        );
+
+        return new Promise<void>((resolve, reject) => {
+            const cleanup = () => {
+                clearTimeout(timer);
+                this.rateSleepers.delete(wake);
+                signal.removeEventListener('abort', onAbort);
+                unlink();
+            };
+            const wake = () => {
+                cleanup();
+                resolve();
+            };
+            const onAbort = () => {
+                cleanup();
+                reject(signal.reason);
+            };
+            const timer = setTimeout(wake, ms);
+
+            this.rateSleepers.add(wake);
+            signal.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * @private
+     * 为一次消费调用获取消费速率许可。拿不到时启动计时器，在下一次可用时重新调度。
+     * @returns {boolean} 是否获取成功。
+     */
+    private acquireConsumeRate(): boolean {
+        const waitMs = this.consumeLimiter?.tryAcquire() ?? 0;
+        if (waitMs <= 0) {
+            return true;
+        }
+
+        if (this.rateTimer === null) {
+            this.rateTimer = setTimeout(() => {
+                this.rateTimer = null;
+                this.scheduleConsumption();
+            }, waitMs);
+            this.emit('rate-limited', { side: 'consume', waitMs });
+        }
+        return false;
+    }
+
+    /**
+     * @private
+     * 停止等待消费速率许可的计时器。
+     */
+    private clearRateTimer(): void {
+        if (this.rateTimer !== null) {
+            clearTimeout(this.rateTimer);
+            this.rateTimer = null;
+        }
+    }
+
     /**
      * @private
-     * 跟踪当前正在执行的任务数（p-queue中正在运行的任务）
+     * 停止批量模式下等待凑批的计时器。
      */
-    private runningJobs: number = 0;
+    private clearBatchTimer(): void {
+        if (this.batchTimer !== null) {
+            clearTimeout(this.batchTimer);
+            this.batchTimer = null;
+        }
+        this.batchFlushDue = false;
+    }
 
     /**
-     * 创建一个 ProdConsPQueue 实例。
-     * @param {ProdConsOptions} [options={}] - 配置选项。
-     * @param {number} [options.slotAmount=10] - 缓冲区的槽位数量。
-     * @param {number} [options.concurrency=1] - 消费者的并发数。
+     * @private
+     * 释放已结束的数据项所占用的槽位，并唤醒等待的生产者。
+     * @param {BufferEntry<TItem, TResult>[]} entries - 已结束的缓冲区项。
      */
-    constructor(options: ProdConsOptions = {}) {
-        const { slotAmount = 10, concurrency = 1 } = options;
+    private releaseJobs(entries: BufferEntry<TItem, TResult>[]): void {
+        if (entries.length === 0) return;
 
-        this.queue = new PQueue({
-            concurrency,
-            autoStart: true
+        this.runningJobs -= entries.length;
+        entries.forEach(entry => {
+            this.occupiedSlots -= entry.weight;
+            this.releaseKeys(entry, true);
         });
-        this.buffer = [];
-        this.slotAmount = slotAmount;
-        this.listeners = new Map([
-            ['free-slot-amount-change', new Set()],
-            ['blocked-state-change', new Set()],
-            ['destroy', new Set()]
-        ]);
-        this.eventWaiters = new Map();
-        this.previousBlocked = false;
+        this.checkWaitingProducers(); // 检查是否有等待的生产者
+        this.notifyStateChange(); // 消费完成，状态更新
     }
 
     /**
-     * 动态设置缓冲区的槽位数量。
-     * @param {number} n - 新的槽位数量。
+     * @private
+     * 按重试策略执行消费函数。失败时触发 'item-failed' 事件，
+     * 在退避等待后重试；耗尽重试次数后将数据项放入死信队列。
+     * 退避等待期间该数据项继续占用其槽位和并发名额。
+     * 被 clear()/destroy() 中止的数据项不会重试，也不会进入死信队列。
+     * 最终结果会同步到缓冲区项的结果回调上；`'broadcast'` 模式下交给 finishDelivery() 汇总。
+     * @param {ConsumeFn<TItem, TResult>} consumeFn - 消费函数。
+     * @param {BufferEntry<TItem, TResult>} entry - 要消费的缓冲区项。
+     * @param {ItemContext<TItem>} [context=entry.context] - 传给消费函数和消费钩子的上下文；`'broadcast'` 模式下每个组各有一个。
+     * @returns {Promise<'consumed' | 'failed' | 'aborted'>} 消费成功、耗尽重试次数或被中止。
      */
-    setSlotAmount(n: number): void {
-        this.slotAmount = n;
-        this.notifyStateChange();
-        this.checkWaitingProducers();
-    }
+    private async runConsumer(
+        consumeFn: ConsumeFn<TItem, TResult>,
+        entry: BufferEntry<TItem, TResult>,
+        context: ItemContext<TItem> = entry.context
+    ): Promise<'consumed' | 'failed' | 'aborted'> {
+        const queueSignal = this.abortController.signal;
+        const abandon = (reason: unknown) => {
+            if (entry.broadcast) {
+                this.finishDelivery(entry, { status: 'aborted', reason });
+            } else {
+                entry.settle?.reject(reason);
+            }
+        };
 
-    /**
-     * 获取当前设置的槽位总数。
-     * @returns {number} 当前的槽位数量。
-     */
-    getSlotAmount(): number {
-        return this.slotAmount;
+        for (let attempt = 1; ; attempt++) {
+            if (this.destroyed) {
+                abandon(new QueueDestroyedError());
+                return 'aborted';
+            }
+
+            const timeoutMs = entry.timeoutMs ?? this.consumeTimeoutMs;
+            context.stage = 'consume';
+            context.attempt = attempt;
+            this.callHooks('beforeConsume', context);
+            const startedAt = Date.now();
+            try {
+                const result = await this.runAttempt(
+                    signal => consumeFn(entry.item, signal, context),
+                    timeoutMs,
+                    queueSignal,
+                    () => this.emit('timeout', { item: entry.item, attempt, timeoutMs })
+                );
+                this.recordConsumption(startedAt, true);
+                if (entry.broadcast) {
+                    this.callHooks('afterConsume', context, result);
+                    this.finishDelivery(entry, { status: 'consumed', result });
+                } else {
+                    this.settleSuccess(entry, result);
+                }
+                return 'consumed';
+            } catch (error) {
+                if (queueSignal.aborted) {
+                    this.callHooks('onError', context, queueSignal.reason);
+                    abandon(queueSignal.reason);
+                    return 'aborted';
+                }
+                this.recordConsumption(startedAt, false);
+                if (!this.handleFailure(entry, error, attempt, context)) {
+                    return 'failed';
+                }
+                await this.waitBeforeRetry(attempt, queueSignal);
+                // 退避等待期间被中止的数据项不再重试
+                if (queueSignal.aborted) {
+                    abandon(queueSignal.reason);
+                    return 'aborted';
+                }
+            }
+        }
     }
 
     /**
-     * 获取待处理的任务数（缓冲区中等待消费的项目数）。
-     * @returns {number} 待处理的任务数。
+     * @private
+     * 批量模式下按重试策略执行消费函数。每次尝试后，成功的数据项立即确定结果并释放槽位，
+     * 失败且需要重试的数据项在退避等待后组成新的一批再次提交。
+     * @param {BatchConsumeFn<TItem, TResult>} fn - 批量消费函数。
+     * @param {BufferEntry<TItem, TResult>[]} entries - 这一批的缓冲区项。
+     * @param {Set<BufferEntry<TItem, TResult>>} settled - 已确定结果（并已释放槽位）的数据项。
      */
-    getPendingJobs(): number {
-        return this.buffer.length;
+    private async runBatch(
+        fn: BatchConsumeFn<TItem, TResult>,
+        entries: BufferEntry<TItem, TResult>[],
+        settled: Set<BufferEntry<TItem, TResult>>
+    ): Promise<void> {
+        const queueSignal = this.abortController.signal;
+        let pending = entries;
+
+        for (let attempt = 1; pending.length > 0; attempt++) {
+            if (this.destroyed) {
+                pending.forEach(entry => entry.settle?.reject(new QueueDestroyedError()));
+                return;
+            }
+
+            const items = pending.map(entry => entry.item);
+            // 一批中取最短的有效超时时长
+            const limits = pending
+                .map(entry => entry.timeoutMs ?? this.consumeTimeoutMs)
+                .filter(ms => ms > 0);
+            const timeoutMs = limits.length > 0 ? Math.min(...limits) : 0;
+            let outcomes: PromiseSettledResult<TResult>[];
+            const contexts = pending.map(entry => entry.context);
+            contexts.forEach(context => {
+                context.stage = 'consume';
+                context.attempt = attempt;
+                this.callHooks('beforeConsume', context);
+            });
+            const startedAt = Date.now();
+
+            try {
+                const returned = await this.runAttempt(
+                    signal => fn(items, signal, contexts),
+                    timeoutMs,
+                    queueSignal,
+                    () => items.forEach(item => this.emit('timeout', { item, attempt, timeoutMs }))
+                );
+                if (returned && returned.length !== pending.length) {
+                    throw new BatchOutcomeError(pending.length, returned.length);
+                }
+                outcomes = returned
+                    || pending.map(() => ({ status: 'fulfilled', value: undefined as TResult }));
+            } catch (error) {
+                if (queueSignal.aborted) {
+                    pending.forEach(entry => {
+                        this.callHooks('onError', entry.context, queueSignal.reason);
+                        entry.settle?.reject(queueSignal.reason);
+                    });
+                    return;
+                }
+                outcomes = pending.map(() => ({ status: 'rejected', reason: error }));
+            }
+            this.recordConsumption(startedAt, outcomes.every(outcome => outcome.status === 'fulfilled'));
+
+            const retrying: BufferEntry<TItem, TResult>[] = [];
+            outcomes.forEach((outcome, index) => {
+                const entry = pending[index];
+                if (outcome.status === 'fulfilled') {
+                    this.settleSuccess(entry, outcome.value);
+                } else if (this.handleFailure(entry, outcome.reason, attempt)) {
+                    retrying.push(entry);
+                }
+            });
+
+            const done = pending.filter(entry => !retrying.includes(entry));
+            done.forEach(entry => settled.add(entry));
+            this.releaseJobs(done);
+            pending = retrying;
+
+            if (pending.length > 0) {
+                await this.waitBeforeRetry(attempt, queueSignal);
+                // 退避等待期间被中止的数据项不再重试
+                if (queueSignal.aborted) {
+                    pending.forEach(entry => entry.settle?.reject(queueSignal.reason));
+                    return;
+                }
+            }
+        }
     }
 
     /**
-     * 获取当前正在执行的任务数。
-     * @returns {number} 正在执行的任务数。
+     * @private
+     * 确定一个数据项的成功结果，并触发 'item-consumed' 事件。
+     * @param {BufferEntry<TItem, TResult>} entry - 被成功消费的缓冲区项。
+     * @param {TResult} result - 消费结果。
      */
-    getRunningJobs(): number {
-        return this.runningJobs;
+    private settleSuccess(entry: BufferEntry<TItem, TResult>, result: TResult): void {
+        this.store.ack(entry.storeId);
+        this.metrics.recordConsumed();
+        // 'broadcast' 模式下每个组结束时已经各自调用过 afterConsume
+        if (!entry.broadcast) {
+            this.callHooks('afterConsume', entry.context, result);
+        }
+        entry.settle?.resolve(result);
+        this.emit('item-consumed', { item: entry.item, result });
     }
 
     /**
-     * 获取当前可用的空闲槽位数量。
-     * @returns {number} 空闲槽位的数量。
+     * @private
+     * 处理一次消费失败：触发 'item-failed' 事件，并判断是否重试。
+     * 不再重试时将数据项放入死信队列并拒绝其结果。
+     * @param {BufferEntry<TItem, TResult>} entry - 失败的缓冲区项。
+     * @param {unknown} error - 失败原因。
+     * @param {number} attempt - 本次是第几次尝试。
+     * @param {ItemContext<TItem>} [context=entry.context] - 本次尝试的上下文，传给 onError 钩子。
+     * @returns {boolean} 是否应该重试。
      */
-    getFreeSlotAmount(): number {
-        const usedSlots = this.runningJobs + this.buffer.length;
-        return Math.max(0, this.slotAmount - usedSlots);
+    private handleFailure(
+        entry: BufferEntry<TItem, TResult>,
+        error: unknown,
+        attempt: number,
+        context: ItemContext<TItem> = entry.context
+    ): boolean {
+        const { maxAttempts = 1, shouldRetry } = this.retryPolicy;
+        const willRetry = attempt < maxAttempts
+            && !this.destroyed
+            && (!shouldRetry || shouldRetry(error, entry.item, attempt));
+
+        this.callHooks('onError', context, error);
+        this.emit('item-failed', { item: entry.item, error, attempt, willRetry });
+
+        if (willRetry) {
+            this.metrics.retried++;
+        } else if (entry.broadcast) {
+            this.finishDelivery(entry, { status: 'failed', error, attempts: attempt });
+        } else {
+            this.failEntry(entry, error, attempt);
+        }
+        return willRetry;
     }
 
     /**
-     * 检查缓冲区是否已满（即生产者是否应被阻塞）。
-     * @returns {boolean} 如果缓冲区已满则返回 `true`，否则返回 `false`。
+     * @private
+     * 将耗尽重试次数的数据项放入死信队列，报告错误并拒绝其结果。
+     * @param {BufferEntry<TItem, TResult>} entry - 失败的缓冲区项。
+     * @param {unknown} error - 最后一次失败的原因。
+     * @param {number} attempts - 已经尝试的次数。
      */
-    isBlocked(): boolean {
-        return (this.runningJobs + this.buffer.length) >= this.slotAmount;
+    private failEntry(entry: BufferEntry<TItem, TResult>, error: unknown, attempts: number): void {
+        this.metrics.failed++;
+        this.reportError({ error: new ConsumerError(entry.item, attempts, error), phase: 'consume', item: entry.item });
+        // 死信队列只在内存中，存储中的记录保留到死信离开死信队列，进程崩溃后数据项会被重放
+        this.addDeadLetter({ item: entry.item, error, attempts, failedAt: Date.now() }, this.toRecord(entry));
+        entry.settle?.reject(error);
     }
 
     /**
-     * 等待直到有可用的空闲槽位。这是实现生产者背压的关键。
-     * 如果已有空闲槽位，则立即解析。
-     * @throws {Error} 如果实例已被销毁。
-     * @returns {Promise<boolean>} 一个在有空闲槽位时解析为 `true` 的 Promise。
+     * @private
+     * 按重试策略在下一次尝试前等待，可被 clear()/destroy() 提前结束。
+     * @param {number} attempt - 已经尝试的次数。
+     * @param {AbortSignal} queueSignal - 队列级的中止信号。
      */
-    async hasFreeSlot(): Promise<boolean> {
-        if (this.destroyed) {
-            throw new Error('ProdConsPQueue has been destroyed');
-        }
-
-        if (!this.isBlocked()) {
-            return true;
+    private async waitBeforeRetry(attempt: number, queueSignal: AbortSignal): Promise<void> {
+        const delay = computeRetryDelay(this.retryPolicy, attempt);
+        if (delay <= 0 || queueSignal.aborted) {
+            return;
         }
 
-        return new Promise((resolve) => {
-            this.waitingForSlot.push({ resolve: () => resolve(true) });
+        await new Promise<void>(resolve => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+            const timer = setTimeout(() => {
+                queueSignal.removeEventListener('abort', onAbort);
+                resolve();
+            }, delay);
+            queueSignal.addEventListener('abort', onAbort, { once: true });
         });
     }
 
     /**
-     * 等待一个特定的事件被触发。
-     * @param {string} eventName - 要等待的事件名称。
-     * @param {(value: any) => boolean} [condition] - 一个可选的条件函数。只有当事件值满足该条件时，Promise 才会解析。
-     * @throws {Error} 如果实例已被销毁。
-     * @returns {Promise<any>} 一个在事件触发且满足条件时，用事件值解析的 Promise。
+     * @private
+     * 执行一次消费。为本次消费创建独立的 `AbortSignal`，它会在超时或队列级中止时被中止；
+     * 一旦被中止，本方法立即拒绝，不再等待消费函数结束，从而释放槽位。
+     * @param {(signal: AbortSignal) => Promise<T>} run - 执行消费的函数。
+     * @param {number} timeoutMs - 超时时长（毫秒），0 表示不限制。
+     * @param {AbortSignal} queueSignal - 队列级的中止信号。
+     * @param {() => void} onTimeout - 超时时的回调，在中止信号之前调用。
+     * @returns {Promise<T>} 消费函数的返回值。
      */
-    async waitForEvent(eventName: string, condition?: (value: any) => boolean): Promise<any> {
-        if (this.destroyed) {
-            throw new Error('ProdConsPQueue has been destroyed');
+    private async runAttempt<T>(
+        run: (signal: AbortSignal) => Promise<T>,
+        timeoutMs: number,
+        queueSignal: AbortSignal,
+        onTimeout: () => void
+    ): Promise<T> {
+        if (queueSignal.aborted) {
+            throw queueSignal.reason;
         }
+        const controller = new AbortController();
+        const onQueueAbort = () => controller.abort(queueSignal.reason);
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        queueSignal.addEventListener('abort', onQueueAbort, { once: true });
 
-        return new Promise((resolve) => {
-            if (!this.eventWaiters.has(eventName)) {
-                this.eventWaiters.set(eventName, []);
-            }
-            this.eventWaiters.get(eventName)!.push({ resolve, condition });
-        });
+        if (timeoutMs > 0) {
+            timer = setTimeout(() => {
+                this.metrics.timedOut++;
+                onTimeout();
+                controller.abort(new QueueTimeoutError(`Consumer timed out after ${timeoutMs}ms`, timeoutMs));
+            }, timeoutMs);
+        }
+
+        try {
+            return await raceAbort(run(controller.signal), controller.signal);
+        } finally {
+            clearTimeout(timer);
+            queueSignal.removeEventListener('abort', onQueueAbort);
+        }
     }
 
     /**
      * @private
-     * 通知并解决等待特定事件的 Promise。
-     * @param {string} eventName - 触发的事件名称。
-     * @param {any} value - 传递给事件的值。
+     * 中止所有进行中的生产函数和消费函数，并为后续工作换上新的中止控制器。
+     * @param {Error} reason - 中止原因。
      */
-    private notifyEventWaiters(eventName: string, value: any): void {
-        const waiters = this.eventWaiters.get(eventName);
-        if (!waiters || waiters.length === 0) return;
-
-        const toRemove: number[] = [];
-        waiters.forEach((waiter, index) => {
-            if (!waiter.condition || waiter.condition(value)) {
-                waiter.resolve(value);
-                toRemove.push(index);
-            }
-        });
-
-        // 从后往前删除，避免索引错乱
-        toRemove.reverse().forEach(index => {
-            waiters.splice(index, 1);
-        });
+    private abortInFlight(reason: Error): void {
+        const controller = this.abortController;
+        this.abortController = new AbortController();
+        controller.abort(reason);
     }
 
     /**
      * @private
-     * 在状态（如空闲槽位数、阻塞状态）变化时，发出相应的事件。
+     * 将一条记录放入死信队列，超出容量时丢弃最早的记录并在存储中确认它们。
+     * @param {DeadLetter<TItem>} letter - 死信记录。
+     * @param {StoredItem<TItem>} record - 数据项的存储记录。
      */
-    private notifyStateChange(): void {
+    private addDeadLetter(letter: DeadLetter<TItem>, record: StoredItem<TItem>): void {
         if (this.destroyed) return;
 
-        const currentFreeSlots = this.getFreeSlotAmount();
-        const currentBlocked = this.isBlocked();
-
-        this.emit('free-slot-amount-change', currentFreeSlots);
-
-        if (currentBlocked !== this.previousBlocked) {
-            this.previousBlocked = currentBlocked;
-            this.emit('blocked-state-change', currentBlocked);
+        this.deadLetters.push(letter);
+        this.deadLetterRecords.set(letter, record);
+        if (this.deadLetters.length > this.maxDeadLetters) {
+            this.releaseDeadLetters(this.deadLetters.splice(0, this.deadLetters.length - this.maxDeadLetters));
         }
+        this.emit('item-dead-lettered', letter);
     }
 
     /**
      * @private
-     * 检查是否有生产者在等待空闲槽位，并在有槽位时唤醒它们。
+     * 在存储中确认离开死信队列的记录，之后不会再被重放。
+     * @param {DeadLetter<TItem>[]} letters - 离开死信队列的记录。
      */
-    private checkWaitingProducers(): void {
-        while (this.waitingForSlot.length > 0 && !this.isBlocked()) {
-            const waiter = this.waitingForSlot.shift();
-            if (waiter) {
-                waiter.resolve();
+    private releaseDeadLetters(letters: DeadLetter<TItem>[]): void {
+        letters.forEach(letter => {
+            const record = this.deadLetterRecords.get(letter);
+            if (record) {
+                this.deadLetterRecords.delete(letter);
+                this.store.ack(record.id);
             }
-        }
+        });
     }
 
     /**
-     * 生产者方法。它会等待一个可用的槽位，然后执行生产函数 `fn`，
-     * 并将 `fn` 的返回值添加到缓冲区中。
-     * @param {() => Promise<any>} fn - 一个返回 Promise 的生产函数，其解析值将被添加到缓冲区。
-     * @throws {Error} 如果实例已被销毁。
-     * @returns {Promise<void>} 一个在生产完成并入队后解析的 Promise。
+     * 获取死信队列中的所有记录（副本），不会将其移除。
+     * @returns {DeadLetter<TItem>[]} 死信记录列表，按进入顺序排列。
      */
-    async produce(fn: () => Promise<any>): Promise<void> {
-        if (this.destroyed) {
-            throw new Error('ProdConsPQueue has been destroyed');
-        }
-
-        await this.hasFreeSlot();
-
-        const data = await fn();
-        this.buffer.push(data);
-
-        this.notifyStateChange();
-        this.scheduleConsumption();
+    getDeadLetters(): DeadLetter<TItem>[] {
+        return this.deadLetters.slice();
     }
 
     /**
-     * 设置消费者函数并开始消费过程。
-     * @param {(data: any) => Promise<void>} fn - 一个处理单个数据项的异步函数。
-     * @throws {Error} 如果实例已被销毁。
+     * 取出并清空死信队列中的所有记录。被取出的数据项在存储中被确认，之后由调用方负责处理。
+     * @returns {DeadLetter<TItem>[]} 被取出的死信记录列表。
      */
-    consume(fn: (data: any) => Promise<void>): void {
-        if (this.destroyed) {
-            throw new Error('ProdConsPQueue has been destroyed');
-        }
-
-        this.consumeFn = fn;
-        this.consuming = true;
-        this.scheduleConsumption();
+    drainDeadLetters(): DeadLetter<TItem>[] {
+        const letters = this.deadLetters;
+        this.deadLetters = [];
+        this.releaseDeadLetters(letters);
+        return letters;
     }
 
     /**
-     * @private
-     * 核心调度逻辑。当缓冲区有数据且 p-queue 有能力处理更多任务时，
-     * 从缓冲区取出数据并将其作为任务添加到 p-queue 中。
+     * 将死信队列中的数据项重新放入缓冲区等待消费。
+     * 与 `produce` 一样遵循槽位限制，缓冲区满时会等待空闲槽位。
+     * @param {(letter: DeadLetter<TItem>) => boolean} [filter] - 可选的过滤函数，只重新入队返回 `true` 的记录，其余记录保留在死信队列中。
+     * @throws {QueueDestroyedError} 如果实例已被销毁。
+     * @returns {Promise<number>} 重新入队的数据项数量。
      */
-    private scheduleConsumption(): void {
-        if (!this.consuming || this.destroyed || !this.consumeFn) {
-            return;
+    async requeueDeadLetters(filter?: (letter: DeadLetter<TItem>) => boolean): Promise<number> {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
         }
 
-        // 持续调度消费任务，直到缓冲区为空或 p-queue 并发达到上限
-        while (this.buffer.length > 0 && this.runningJobs < this.queue.concurrency) {
-            const data = this.buffer.shift();
-            if (data !== undefined) {
-                this.runningJobs++;
-                this.notifyStateChange(); // 缓冲区减少，运行任务增加，状态更新
-
-                // 将消费任务添加到 PQueue 中
-                this.queue.add(async () => {
-                    try {
-                        if (this.consumeFn) {
-                            await this.consumeFn(data);
-                        }
-                    } catch (error) {
-                        console.error('Error in consumer function:', error);
-                    } finally {
-                        // 消费完成后清理
-                        this.runningJobs--;
-                        this.checkWaitingProducers(); // 检查是否有等待的生产者
-                        this.notifyStateChange(); // 消费完成，状态更新
-
-                        // 使用 setImmediate 尝试调度更多任务，避免同步递归过深
-                        setImmediate(() => this.scheduleConsumption());
-                    }
-                });
-            }
+        const selected = filter ? this.deadLetters.filter(filter) : this.deadLetters;
+        this.deadLetters = filter ? this.deadLetters.filter(letter => !filter(letter)) : [];
+
+        for (const letter of selected) {
+            await this.produce(async () => letter.item);
+            // 重新入队的数据项已有新的存储记录
+            this.releaseDeadLetters([letter]);
         }
+        return selected.length;
     }
 
     /**
-     * 等待直到缓冲区为空，并且所有当前正在消费的项目都处理完毕。
+     * 等待直到缓冲区为空，并且所有当前正在消费的项目都处理完毕（见 `isIdle()`）。
+     * 队列暂停或尚未设置消费者时会一直等待，直到消费恢复并处理完所有数据项，或被清空。
+     * @param {WaitOptions} [options={}] - 超时和取消信号。
+     * @throws {QueueDestroyedError} 如果实例已被销毁，或在等待期间被销毁。
+     * @throws {QueueTimeoutError} 如果等待超时。
+     * @throws {unknown} 如果等待被取消，以 `signal.reason` 拒绝。
      * @returns {Promise<void>} 当队列完全变空时解析的 Promise。
      */
-    async waitForEmpty(): Promise<void> {
-        while ((this.buffer.length > 0 || this.runningJobs > 0) && this.consuming && !this.destroyed) {
-            await new Promise(resolve => setTimeout(resolve, 1));
-        }
+    async waitForEmpty(options: WaitOptions = {}): Promise<void> {
+        await this.waitForIdle('waitForEmpty', options);
     }
 
     /**
      * 等待所有已入队和正在进行的消费任务完成。
      * 这比 `waitForEmpty` 更为彻底，因为它确保 p-queue 也变为空闲状态。
+     * 暂停、销毁、超时和取消的语义与 `waitForEmpty` 相同。
+     * @param {WaitOptions} [options={}] - 超时和取消信号。
+     * @throws {QueueDestroyedError} 如果实例已被销毁，或在等待期间被销毁。
+     * @throws {QueueTimeoutError} 如果等待超时。
+     * @throws {unknown} 如果等待被取消，以 `signal.reason` 拒绝。
      * @returns {Promise<void>} 当所有任务都完成时解析的 Promise。
      */
-    async waitForConsumption(): Promise<void> {
-        // 等待 p-queue 中的所有任务完成
+    async waitForConsumption(options: WaitOptions = {}): Promise<void> {
+        // 等待缓冲区和正在消费的项为空
+        await this.waitForIdle('waitForConsumption', options);
+        // 再等待 p-queue 中的任务包装函数全部结束
         await this.queue.onIdle();
-        // 再次确认缓冲区和正在消费的项也为空
-        await this.waitForEmpty();
+    }
+
+    /**
+     * @private
+     * 等待队列变为空闲。已空闲时立即解析，否则登记为等待者，
+     * 由 notifyStateChange() 在队列变为空闲时唤醒。
+     * @param {string} method - 调用方的方法名，用于超时错误信息。
+     * @param {WaitOptions} options - 超时和取消信号。
+     * @returns {Promise<void>} 在队列空闲时解析的 Promise。
+     */
+    private waitForIdle(method: string, { timeoutMs = 0, signal }: WaitOptions): Promise<void> {
+        if (this.destroyed) {
+            return Promise.reject(new QueueDestroyedError());
+        }
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+        if (this.isIdle()) {
+            return Promise.resolve();
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const cleanup = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                this.idleWaiters.delete(waiter);
+            };
+            const waiter = {
+                resolve: () => {
+                    cleanup();
+                    resolve();
+                },
+                reject: (reason: unknown) => {
+                    cleanup();
+                    reject(reason);
+                }
+            };
+            const onAbort = () => waiter.reject(signal!.reason);
+
+            this.idleWaiters.add(waiter);
+            signal?.addEventListener('abort', onAbort, { once: true });
+            if (timeoutMs > 0) {
+                timer = setTimeout(() => waiter.reject(new QueueTimeoutError(`${method} timed out after ${timeoutMs}ms`, timeoutMs)), timeoutMs);
+            }
+        });
     }
 
     /**
      * 注册一个事件监听器。
-     * @param {'free-slot-amount-change' | 'blocked-state-change' | 'destroy'} event - 事件名称。
-     * @param {EventListener<any>} callback - 事件触发时执行的回调函数。
+     * @param {K} event - 事件名称，见 {@link ProdConsEventMap}。
+     * @param {EventListener<ProdConsEventMap[K]>} callback - 事件触发时执行的回调函数。
      */
-    on(event: 'free-slot-amount-change' | 'blocked-state-change' | 'destroy', callback: EventListener<any>): void {
+    on<K extends ProdConsEventName>(event: K, callback: EventListener<ProdConsEventMap<TItem, TResult>[K]>): void {
         if (this.destroyed) {
             return;
         }
@@ -402,10 +3435,10 @@ export class ProdConsPQueue {
 
     /**
      * 移除一个事件监听器。
-     * @param {'free-slot-amount-change' | 'blocked-state-change' | 'destroy'} event - 事件名称。
-     * @param {EventListener<any>} callback - 要移除的回调函数。
+     * @param {K} event - 事件名称，见 {@link ProdConsEventMap}。
+     * @param {EventListener<ProdConsEventMap[K]>} callback - 要移除的回调函数。
      */
-    off(event: 'free-slot-amount-change' | 'blocked-state-change' | 'destroy', callback: EventListener<any>): void {
+    off<K extends ProdConsEventName>(event: K, callback: EventListener<ProdConsEventMap<TItem, TResult>[K]>): void {
         if (this.listeners.has(event)) {
             this.listeners.get(event)!.delete(callback);
         }
@@ -414,29 +3447,109 @@ export class ProdConsPQueue {
     /**
      * @private
      * 触发一个事件，并通知所有相关的监听器和等待者。
-     * @param {string} event - 要触发的事件名称。
-     * @param {any} value - 传递给监听器的值。
+     * @param {K} event - 要触发的事件名称。
+     * @param {ProdConsEventMap[K]} value - 传递给监听器的值。
      */
-    private emit(event: string, value: any): void {
-        if (this.destroyed) {
+    private emit<K extends ProdConsEventName>(event: K, value: ProdConsEventMap<TItem, TResult>[K]): void {
+        // 'destroy' 事件本身在实例标记为已销毁之后触发
+        if (this.destroyed && event !== 'destroy') {
             return;
         }
 
         const callbacks = this.listeners.get(event);
         if (callbacks) {
-            callbacks.forEach(callback => callback(value));
+            callbacks.forEach(callback => {
+                // 隔离监听器的异常，避免打断内部状态的更新
+                try {
+                    callback(value);
+                } catch (error) {
+                    this.reportListenerError(event, error);
+                }
+            });
         }
 
         this.notifyEventWaiters(event, value);
     }
 
+    /**
+     * @private
+     * 通过 'error' 事件报告错误；没有 'error' 监听器时交给日志记录器输出。
+     * @param {QueueErrorEvent<TItem>} errorEvent - 错误及其上下文。
+     */
+    private reportError(errorEvent: QueueErrorEvent<TItem>): void {
+        if ((this.listeners.get('error')?.size ?? 0) > 0) {
+            this.emit('error', errorEvent);
+            return;
+        }
+
+        const source = errorEvent.phase === 'listener'
+            ? `"${errorEvent.event}" listener`
+            : errorEvent.phase === 'hook'
+                ? `"${errorEvent.hook}" hook`
+                : 'consumer function';
+        this.logger.error(`Error in ${source}:`, errorEvent.error);
+    }
+
+    /**
+     * @private
+     * 报告监听器（或 waitForEvent 的条件函数）抛出的异常。
+     * 'error' 事件自身的监听器出错时直接交给日志记录器，避免递归。
+     * @param {ProdConsEventName} event - 监听器所监听的事件名称。
+     * @param {unknown} error - 抛出的异常。
+     */
+    private reportListenerError(event: ProdConsEventName, error: unknown): void {
+        if (event === 'error') {
+            this.logger.error('Error in "error" listener:', error);
+            return;
+        }
+        this.reportError({ error, phase: 'listener', event });
+    }
+
+    /**
+     * @private
+     * 按注册顺序调用各个钩子中的同名方法。钩子抛出的异常通过 'error' 事件报告，不会中断调用。
+     * @param {keyof ProdConsHooks} hook - 钩子名称。
+     * @param {ItemContext<TItem>} context - 数据项的上下文。
+     * @param {unknown} [arg] - 附加参数：`afterConsume` 为消费结果，`onError` 为失败原因。
+     */
+    private callHooks(hook: keyof ProdConsHooks, context: ItemContext<TItem>, arg?: unknown): void {
+        this.hooks.forEach(hooks => {
+            const fn = hooks[hook] as ((context: ItemContext<TItem>, arg?: unknown) => void) | undefined;
+            if (!fn) {
+                return;
+            }
+            try {
+                fn.call(hooks, context, arg);
+            } catch (error) {
+                this.reportError({ error, phase: 'hook', hook, item: context.item });
+            }
+        });
+    }
+
+    /**
+     * 注册一组生命周期钩子。同一个对象重复注册只生效一次。
+     * @param {ProdConsHooks<TItem, TResult>} hooks - 钩子。
+     */
+    addHooks(hooks: ProdConsHooks<TItem, TResult>): void {
+        this.hooks.add(hooks);
+    }
+
+    /**
+     * 移除通过 `addHooks` 或 `hooks` 选项注册的生命周期钩子。
+     * @param {ProdConsHooks<TItem, TResult>} hooks - 要移除的钩子。
+     */
+    removeHooks(hooks: ProdConsHooks<TItem, TResult>): void {
+        this.hooks.delete(hooks);
+    }
+
     /**
      * 暂停消费。
      * 不会停止已经在执行的任务，但会阻止新的任务从缓冲区进入消费流程。
+     * 暂停期间设置消费者（`consume`、`consumeBatch`、`consumeGroup`）不会恢复消费。
      * @returns {Promise<void>} 在队列暂停后解析的 Promise。
      */
     async pause(): Promise<void> {
-        this.consuming = false;
+        this.paused = true;
         await this.queue.pause();
     }
 
@@ -445,31 +3558,118 @@ export class ProdConsPQueue {
      * @returns {Promise<void>}
      */
     async start(): Promise<void> {
-        this.consuming = true;
+        this.paused = false;
         this.queue.start(); // 确保 p-queue 正在运行
         this.scheduleConsumption(); // 立即尝试调度任务
     }
 
     /**
      * 清空缓冲区和 p-queue 中所有待处理的任务。
-     * 正在执行的任务不受影响。
-     * 同时会唤醒所有等待的生产者。
+     * 进行中的生产函数和消费函数会通过 `AbortSignal` 被中止，它们占用的槽位随即释放。
+     * 同时会唤醒所有等待的生产者。被清空或中止的数据项的跟踪句柄以 {@link QueueClearedError} 拒绝，并在存储中被确认。
      * @returns {Promise<void>} 在清空操作完成后解析的 Promise。
      */
     async clear(): Promise<void> {
-        this.buffer = [];
+        const reason = new QueueClearedError();
+        this.clearBatchTimer();
+        this.discardBuffer(reason);
+        this.abortInFlight(reason);
+        // 被清空和中止的数据项都不应在重启后重放，死信队列中的数据项不受影响
+        this.store.clear();
+        this.deadLetterRecords.forEach(record => this.store.append(record));
 
-        // 唤醒所有等待的生产者，因为队列被清空了
-        this.waitingForSlot.forEach(waiter => waiter.resolve());
-        this.waitingForSlot = [];
+        // 缓冲区被清空，按到达顺序放行等待的生产者
+        this.checkWaitingProducers();
 
         await this.queue.clear();
         this.notifyStateChange(); // 状态发生重大变化，通知监听者
     }
 
+    /**
+     * 关闭实例：不再接受新的生产，等待槽位的生产者以 {@link QueueClosedError} 被拒绝。
+     * `drain` 方式会继续消费缓冲区中和正在消费的数据项直到队列空闲（若已暂停，需恢复消费才能完成）；
+     * `abort` 方式或 `drain` 超时后，丢弃缓冲区中的数据项并中止正在消费的数据项；它们不会在存储中被确认。
+     * 关闭完成后触发 'close' 事件。实例仍可查询统计和死信队列，需要释放资源时再调用 `destroy()`。
+     * 重复调用返回同一个结果。
+     * @param {CloseOptions} [options={}] - 关闭方式和超时。
+     * @throws {QueueDestroyedError} 如果实例已被销毁，或在关闭过程中被销毁。
+     * @returns {Promise<CloseSummary>} 在关闭完成后以关闭结果解析的 Promise。
+     */
+    async close(options: CloseOptions = {}): Promise<CloseSummary> {
+        if (this.destroyed) {
+            throw new QueueDestroyedError();
+        }
+
+        if (!this.closing) {
+            this.closing = this.shutdown(options);
+        }
+        return this.closing;
+    }
+
+    /**
+     * @private
+     * 执行关闭过程并统计关闭期间数据项的去向。
+     * @param {CloseOptions} options - 关闭方式和超时。
+     * @returns {Promise<CloseSummary>} 关闭结果。
+     */
+    private async shutdown({ mode = 'drain', timeoutMs = 0 }: CloseOptions): Promise<CloseSummary> {
+        const reason = new QueueClosedError();
+        const summary: CloseSummary = {
+            completed: 0,
+            failed: 0,
+            dropped: 0,
+            aborted: 0,
+            rejectedProducers: this.rejectWaitingProducers(reason),
+            timedOut: false
+        };
+        const onConsumed = () => {
+            summary.completed++;
+        };
+        const onDeadLettered = () => {
+            summary.failed++;
+        };
+
+        this.on('item-consumed', onConsumed);
+        this.on('item-dead-lettered', onDeadLettered);
+        try {
+            if (mode === 'drain') {
+                try {
+                    await this.waitForIdle('close', { timeoutMs });
+                } catch (error) {
+                    if (this.destroyed) {
+                        throw error;
+                    }
+                    summary.timedOut = true;
+                }
+            }
+
+            if (!this.isIdle()) {
+                summary.dropped = this.buffer.length + this.scheduled.length;
+                summary.aborted = this.runningJobs;
+                this.clearBatchTimer();
+                this.discardBuffer(reason);
+                this.abortInFlight(reason);
+                this.notifyStateChange();
+                // 被中止的消费函数会立即结束并释放槽位
+                await this.waitForIdle('close', {});
+            } else {
+                // 中止关闭前已通过槽位检查、仍在执行的生产函数
+                this.abortInFlight(reason);
+            }
+        } finally {
+            this.off('item-consumed', onConsumed);
+            this.off('item-dead-lettered', onDeadLettered);
+        }
+
+        this.closed = true;
+        this.emit('close', summary);
+        return summary;
+    }
+
     /**
      * 销毁实例。
      * 这将停止所有活动，清空内部状态，并使实例不可用。
+     * 缓冲区中和正在消费的数据项不会在存储中被确认，使用同一存储创建的新实例会重放它们。
      * @returns {Promise<void>} 在实例完全销毁后解析的 Promise。
      */
     async destroy(): Promise<void> {
@@ -480,16 +3680,28 @@ export class ProdConsPQueue {
         this.destroyed = true;
         this.consuming = false;
         this.consumeFn = null;
+        this.batchConsumer = null;
+        this.clearBatchTimer();
+        this.clearRateTimer();
+        // 死信不会被确认，与被丢弃的缓冲区一样在下次创建实例时重放
+        this.deadLetters = [];
+        this.deadLetterRecords.clear();
 
-        // 解决所有等待的 Promise，以防它们永远挂起
-        this.waitingForSlot.forEach(waiter => waiter.resolve());
-        this.waitingForSlot = [];
+        const reason = new QueueDestroyedError();
+        this.discardBuffer(reason);
+        this.groups.clear();
+        this.abortInFlight(reason);
+
+        // 拒绝等待槽位的生产者，避免它们被唤醒后向已销毁的实例放入数据
+        this.rejectWaitingProducers(reason);
 
         this.eventWaiters.forEach(waiters => {
             waiters.forEach(waiter => waiter.resolve(null)); // 以 null 值解决，表示销毁
         });
         this.eventWaiters.clear();
 
+        Array.from(this.idleWaiters).forEach(waiter => waiter.reject(reason));
+
         await this.queue.pause();
         await this.queue.clear();
 
@@ -497,30 +3709,49 @@ export class ProdConsPQueue {
         this.listeners.clear();
     }
 
+    /**
+     * 获取累计指标：生产、消费和失败的计数，生产者等待时长，排队耗时和消费耗时的分布，以及吞吐量。
+     * 可以通过 {@link formatPrometheus} 渲染为 Prometheus 文本格式。
+     * @returns {MetricsSnapshot} 指标快照。
+     */
+    getMetrics(): MetricsSnapshot {
+        return this.metrics.snapshot();
+    }
+
+    /**
+     * 将累计指标归零，从现在开始重新统计。
+     */
+    resetMetrics(): void {
+        this.metrics = new QueueMetrics();
+    }
+
+    /**
+     * @private
+     * 统计每个分区在缓冲区中的数据项数量。
+     * @returns {Record<string, number>} 以分区键为键、数量为值的对象。
+     */
+    private countByPartition(): Record<string, number> {
+        const counts: Record<string, number> = {};
+        this.partitions.forEach((partition, key) => {
+            if (partition.pending.length > 0) {
+                counts[key] = partition.pending.length;
+            }
+        });
+        return counts;
+    }
+
     /**
      * 获取当前队列的统计信息。
-     * @returns {{
-     *   pendingJobs: number,
-     *   runningJobs: number,
-     *   freeSlotAmount: number,
-     *   isBlocked: boolean,
-     *   isPaused: boolean,
-     *   concurrency: number,
-     *   slotAmount: number
-     * }} 包含队列状态的对象。
-     */
-    getStats(): {
-        pendingJobs: number;
-        runningJobs: number;
-        freeSlotAmount: number;
-        isBlocked: boolean;
-        isPaused: boolean;
-        concurrency: number;
-        slotAmount: number;
-    } {
+     * @returns {ProdConsStats} 包含队列状态的对象。
+     */
+    getStats(): ProdConsStats {
         return {
             /** 待处理的任务数（缓冲区中等待消费的项目数） */
             pendingJobs: this.buffer.length,
+            /** 按优先级分组的待处理任务数 */
+            pendingByPriority: this.buffer.countByPriority(),
+            /** 按分区键分组的待处理任务数 */
+            pendingByPartition: this.countByPartition(),
             /** 当前正在执行的任务数 */
             runningJobs: this.runningJobs,
             /** 可用的空闲槽位数 */
@@ -528,12 +3759,142 @@ export class ProdConsPQueue {
             /** 生产者是否被阻塞 (槽位已满) */
             isBlocked: this.isBlocked(),
             /** 队列是否已暂停 */
-            isPaused: this.queue.isPaused,
+            isPaused: this.paused,
             /** 配置的并发数 */
             concurrency: this.queue.concurrency,
             /** 配置的槽位总数 */
-            slotAmount: this.slotAmount
+            slotAmount: this.slotAmount,
+            /** 已被生产者预留的槽位数 */
+            reservedSlots: this.reservedSlots,
+            /** 已占用的槽位数 */
+            usedSlots: this.occupiedSlots + this.reservedSlots,
+            /** 尚未到期的延迟数据项数 */
+            scheduledJobs: this.scheduled.length,
+            /** 生产和消费两侧的限流状态 */
+            rateLimits: {
+                produce: this.produceLimiter?.getState() ?? null,
+                consume: this.consumeLimiter?.getState() ?? null
+            },
+            /** 各消费者组的统计信息 */
+            groups: Object.fromEntries(Array.from(this.groups, ([name, group]) => [name, {
+                concurrency: group.concurrency,
+                weight: group.weight,
+                isPaused: group.paused,
+                running: group.running,
+                backlog: group.backlog.length,
+                consumed: group.consumed,
+                failed: group.failed
+            }])),
+            /** 去重的累计计数 */
+            deduplicated: { ...this.dedupeCounts },
+            /** 溢出策略的累计计数 */
+            overflow: { ...this.overflowCounts }
+        };
+    }
+
+    /**
+     * 生成队列状态的快照：缓冲区中和等待到期的数据项、槽位数和并发数，以及累计计数。
+     * 正在消费的数据项（`getRunningJobs()`）不包含在内，迁移前应先 `pause()`，让它们在原进程中结束。
+     * 快照不会修改队列，数据项仍留在缓冲区中；迁移完成后可以调用 `clear()` 或 `destroy()`。
+     * 不传序列化方式时返回的快照直接引用缓冲区中的数据项。
+     *
+     * @example
+     * ```typescript
+     * const serializer = new JsonSnapshotSerializer<Job>();
+     * await queue.pause();
+     * fs.writeFileSync('queue.json', queue.snapshot(serializer));
+     *
+     * // 新进程中
+     * const restored = ProdConsPQueue.restore(fs.readFileSync('queue.json', 'utf8'), { serializer });
+     * restored.consume(handleJob);
+     * await restored.start();
+     * ```
+     * @param {SnapshotSerializer<TItem, TEncoded>} [serializer] - 快照的序列化方式。
+     * @returns {QueueSnapshot<TItem> | TEncoded} 快照，或其序列化结果。
+     */
+    snapshot(): QueueSnapshot<TItem>;
+    snapshot<TEncoded>(serializer: SnapshotSerializer<TItem, TEncoded>): TEncoded;
+    snapshot<TEncoded>(serializer?: SnapshotSerializer<TItem, TEncoded>): QueueSnapshot<TItem> | TEncoded {
+        // 出队顺序按优先级排列，分区内的先后顺序需要单独记录
+        const partitionIndexes = new Map<BufferEntry<TItem, TResult>, number>();
+        this.partitions.forEach(partition => {
+            partition.pending.forEach((entry, index) => partitionIndexes.set(entry, index));
+        });
+        const toRecord = (entry: BufferEntry<TItem, TResult>): StoredItem<TItem> => {
+            const index = partitionIndexes.get(entry);
+            return index === undefined ? this.toRecord(entry) : { ...this.toRecord(entry), partitionIndex: index };
+        };
+        const snapshot: QueueSnapshot<TItem> = {
+            version: SNAPSHOT_VERSION,
+            createdAt: Date.now(),
+            config: {
+                slotAmount: this.slotAmount,
+                concurrency: this.queue.concurrency
+            },
+            items: [...this.buffer.toArray(), ...this.scheduled.toArray()].map(toRecord),
+            counters: {
+                produced: this.metrics.produced,
+                consumed: this.metrics.consumed,
+                failed: this.metrics.failed,
+                retried: this.metrics.retried,
+                timedOut: this.metrics.timedOut,
+                overflow: { ...this.overflowCounts },
+                deduplicated: { ...this.dedupeCounts }
+            }
         };
+        return serializer ? serializer.serialize(snapshot) : snapshot;
+    }
+
+    /**
+     * 从快照重建一个已暂停的队列。快照中的槽位数和并发数作为默认值，可以被 `options` 覆盖；
+     * 数据项按原来的顺序放入缓冲区（不受槽位限制）并写入 `options.store`，累计计数从快照继续统计。
+     * 设置消费者后调用 `start()` 开始消费。
+     * @param {QueueSnapshot<TItem> | TEncoded} snapshot - `snapshot()` 返回的快照，或其序列化结果。
+     * @param {ProdConsOptions<TItem> | RestoreOptions<TItem, TEncoded>} [options] - 构造参数；快照经过序列化时需要提供 `serializer`。
+     * @throws {ProdConsError} 如果快照的格式版本不受支持。
+     * @returns {ProdConsPQueue<TItem, TResult>} 已暂停的新队列。
+     */
+    static restore<TItem = any, TResult = unknown>(
+        snapshot: QueueSnapshot<TItem>,
+        options?: ProdConsOptions<TItem>
+    ): ProdConsPQueue<TItem, TResult>;
+    static restore<TItem = any, TResult = unknown, TEncoded = unknown>(
+        snapshot: TEncoded,
+        options: RestoreOptions<TItem, TEncoded>
+    ): ProdConsPQueue<TItem, TResult>;
+    static restore<TItem, TResult, TEncoded>(
+        data: QueueSnapshot<TItem> | TEncoded,
+        options: ProdConsOptions<TItem> | RestoreOptions<TItem, TEncoded> = {}
+    ): ProdConsPQueue<TItem, TResult> {
+        const snapshot = 'serializer' in options
+            ? options.serializer.deserialize(data as TEncoded)
+            : data as QueueSnapshot<TItem>;
+        if (snapshot.version !== SNAPSHOT_VERSION) {
+            throw new ProdConsError(`Unsupported snapshot version: ${snapshot.version}`);
+        }
+
+        const queue = new ProdConsPQueue<TItem, TResult>({
+            slotAmount: snapshot.config.slotAmount,
+            concurrency: snapshot.config.concurrency,
+            ...options
+        });
+        queue.paused = true;
+        queue.queue.pause();
+
+        // 重新编号，避免与存储中已有的记录冲突
+        const records = snapshot.items.map(item => ({ ...item, id: queue.nextStoreId++ }));
+        records.forEach(record => queue.store.append(record));
+        queue.restoreRecords(records);
+
+        const { counters } = snapshot;
+        queue.metrics.produced = counters.produced;
+        queue.metrics.consumed = counters.consumed;
+        queue.metrics.failed = counters.failed;
+        queue.metrics.retried = counters.retried;
+        queue.metrics.timedOut = counters.timedOut;
+        queue.overflowCounts = { ...counters.overflow };
+        queue.dedupeCounts = { ...counters.deduplicated };
+        return queue;
     }
 }
 
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { Histogram, ThroughputMeter } from './metrics';
+
+describe('Histogram', () => {
+  it('没有样本时所有值应为 0', () => {
+    expect(new Histogram().snapshot()).toEqual({ count: 0, sum: 0, min: 0, max: 0, p50: 0, p95: 0, p99: 0 });
+  });
+
+  it('应按最近排名计算分位数', () => {
+    const histogram = new Histogram();
+    for (let value = 1; value <= 100; value++) {
+      histogram.record(value);
+    }
+
+    expect(histogram.snapshot()).toEqual({ count: 100, sum: 5050, min: 1, max: 100, p50: 50, p95: 95, p99: 99 });
+  });
+
+  it('分位数只基于最近的样本，总数和总和覆盖所有样本', () => {
+    const histogram = new Histogram(2);
+    histogram.record(1000);
+    histogram.record(1);
+    histogram.record(2);
+
+    expect(histogram.snapshot()).toMatchObject({ count: 3, sum: 1003, min: 1, max: 2 });
+  });
+});
+
+describe('ThroughputMeter', () => {
+  it('应计算窗口内平均每秒的事件数', () => {
+    const meter = new ThroughputMeter(10000);
+    meter.mark(0);
+    meter.mark(500);
+    meter.mark(9500);
+    meter.mark(10000);
+
+    expect(meter.rate(1000, 10000)).toBe(1);
+    expect(meter.rate(10000, 10000)).toBe(0.2);
+    expect(meter.rate(10000, 10999)).toBe(0.2);
+  });
+
+  it('应丢弃超出最长窗口的桶', () => {
+    const meter = new ThroughputMeter(2000);
+    meter.mark(0);
+    meter.mark(5000);
+
+    expect(meter.rate(60000, 5000)).toBe(1 / 60);
+  });
+});
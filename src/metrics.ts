@@ -0,0 +1,270 @@
+/**
+ * 耗时分布的快照，单位为毫秒。
+ */
+export interface HistogramSnapshot {
+    /** 样本总数 */
+    count: number;
+    /** 样本总和 */
+    sum: number;
+    /** 最近样本中的最小值，没有样本时为 0 */
+    min: number;
+    /** 最近样本中的最大值，没有样本时为 0 */
+    max: number;
+    /** 最近样本的中位数 */
+    p50: number;
+    /** 最近样本的 95 分位数 */
+    p95: number;
+    /** 最近样本的 99 分位数 */
+    p99: number;
+}
+
+/**
+ * 某个时间窗口内的吞吐量，单位为每秒的数据项数。
+ */
+export interface ThroughputSnapshot {
+    /** 窗口长度（毫秒） */
+    windowMs: number;
+    /** 窗口内平均每秒生产的数据项数 */
+    produced: number;
+    /** 窗口内平均每秒成功消费的数据项数 */
+    consumed: number;
+}
+
+/**
+ * getMetrics() 返回的累计指标。计数从实例创建或上一次 `resetMetrics()` 开始统计。
+ */
+export interface MetricsSnapshot {
+    /** 开始统计的时间戳（毫秒） */
+    since: number;
+    /** 放入缓冲区的数据项数 */
+    produced: number;
+    /** 被成功消费的数据项数 */
+    consumed: number;
+    /** 最终消费失败、进入死信队列的数据项数 */
+    failed: number;
+    /** 消费失败后被重试的次数 */
+    retried: number;
+    /** 消费超时的次数 */
+    timedOut: number;
+    /** 生产者因缓冲区已满而等待的次数 */
+    producerWaits: number;
+    /** 生产者因缓冲区已满而等待的总时长（毫秒） */
+    producerWaitMs: number;
+    /** 数据项从放入缓冲区到开始消费的耗时 */
+    queueLatencyMs: HistogramSnapshot;
+    /** 每次调用消费函数的耗时（批量模式下一批算一次） */
+    consumeDurationMs: HistogramSnapshot;
+    /** 各时间窗口内的吞吐量 */
+    throughput: ThroughputSnapshot[];
+}
+
+/**
+ * 记录耗时样本的直方图。总数和总和覆盖所有样本，分位数基于最近的 `maxSamples` 个样本。
+ */
+export class Histogram {
+    /**
+     * @private
+     * 最近样本的环形缓冲区
+     */
+    private samples: number[] = [];
+    /**
+     * @private
+     * 环形缓冲区中下一个写入位置
+     */
+    private next: number = 0;
+    /**
+     * @private
+     * 样本总数
+     */
+    private count: number = 0;
+    /**
+     * @private
+     * 样本总和
+     */
+    private sum: number = 0;
+    /**
+     * @private
+     * 用于计算分位数的最近样本数
+     */
+    private readonly maxSamples: number;
+
+    /**
+     * @param {number} [maxSamples=1024] - 用于计算分位数的最近样本数。
+     */
+    constructor(maxSamples: number = 1024) {
+        this.maxSamples = maxSamples;
+    }
+
+    /**
+     * 记录一个样本。
+     * @param {number} value - 样本值。
+     */
+    record(value: number): void {
+        this.count++;
+        this.sum += value;
+        if (this.samples.length < this.maxSamples) {
+            this.samples.push(value);
+        } else {
+            this.samples[this.next] = value;
+        }
+        this.next = (this.next + 1) % this.maxSamples;
+    }
+
+    /**
+     * 获取当前的分布快照。
+     * @returns {HistogramSnapshot} 分布快照。
+     */
+    snapshot(): HistogramSnapshot {
+        const sorted = this.samples.slice().sort((a, b) => a - b);
+        const quantile = (q: number) => sorted.length === 0
+            ? 0
+            : sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)];
+
+        return {
+            count: this.count,
+            sum: this.sum,
+            min: sorted.length > 0 ? sorted[0] : 0,
+            max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+            p50: quantile(0.5),
+            p95: quantile(0.95),
+            p99: quantile(0.99)
+        };
+    }
+}
+
+/**
+ * 按秒分桶统计事件次数，用于计算滑动窗口内的速率。
+ */
+export class ThroughputMeter {
+    /**
+     * @private
+     * 以秒为单位的时间戳到该秒内事件数的映射
+     */
+    private buckets: Map<number, number> = new Map();
+    /**
+     * @private
+     * 需要支持的最长窗口（毫秒）
+     */
+    private readonly maxWindowMs: number;
+
+    /**
+     * @param {number} maxWindowMs - 需要支持的最长窗口（毫秒），更早的桶会被丢弃。
+     */
+    constructor(maxWindowMs: number) {
+        this.maxWindowMs = maxWindowMs;
+    }
+
+    /**
+     * 记录一次事件。
+     * @param {number} [now=Date.now()] - 事件发生的时间。
+     */
+    mark(now: number = Date.now()): void {
+        const second = Math.floor(now / 1000);
+        this.buckets.set(second, (this.buckets.get(second) ?? 0) + 1);
+        this.prune(second);
+    }
+
+    /**
+     * 计算最近一个窗口内平均每秒的事件数。
+     * @param {number} windowMs - 窗口长度（毫秒）。
+     * @param {number} [now=Date.now()] - 当前时间。
+     * @returns {number} 每秒事件数。
+     */
+    rate(windowMs: number, now: number = Date.now()): number {
+        const current = Math.floor(now / 1000);
+        const seconds = Math.max(1, Math.ceil(windowMs / 1000));
+        let total = 0;
+        this.buckets.forEach((count, second) => {
+            if (second > current - seconds) {
+                total += count;
+            }
+        });
+        return total / seconds;
+    }
+
+    /**
+     * @private
+     * 丢弃超出最长窗口的桶。
+     */
+    private prune(current: number): void {
+        const oldest = current - Math.ceil(this.maxWindowMs / 1000);
+        this.buckets.forEach((_count, second) => {
+            if (second <= oldest) {
+                this.buckets.delete(second);
+            }
+        });
+    }
+}
+
+/**
+ * 计算吞吐量的时间窗口：1 秒、10 秒、60 秒
+ */
+const THROUGHPUT_WINDOWS_MS = [1000, 10000, 60000];
+
+/**
+ * 队列的累计指标收集器。计数字段由队列直接累加，含义见 {@link MetricsSnapshot}。
+ */
+export class QueueMetrics {
+    since: number = Date.now();
+    produced: number = 0;
+    consumed: number = 0;
+    failed: number = 0;
+    retried: number = 0;
+    timedOut: number = 0;
+    producerWaits: number = 0;
+    producerWaitMs: number = 0;
+    readonly queueLatency: Histogram = new Histogram();
+    readonly consumeDuration: Histogram = new Histogram();
+    readonly producedMeter: ThroughputMeter = new ThroughputMeter(Math.max(...THROUGHPUT_WINDOWS_MS));
+    readonly consumedMeter: ThroughputMeter = new ThroughputMeter(Math.max(...THROUGHPUT_WINDOWS_MS));
+
+    /**
+     * 记录一个数据项被放入缓冲区。
+     */
+    recordProduced(): void {
+        this.produced++;
+        this.producedMeter.mark();
+    }
+
+    /**
+     * 记录一个数据项被成功消费。
+     */
+    recordConsumed(): void {
+        this.consumed++;
+        this.consumedMeter.mark();
+    }
+
+    /**
+     * 记录生产者因缓冲区已满而等待的一段时间。
+     * @param {number} waitMs - 等待时长（毫秒）。
+     */
+    recordProducerWait(waitMs: number): void {
+        this.producerWaits++;
+        this.producerWaitMs += waitMs;
+    }
+
+    /**
+     * 获取当前指标的快照。
+     * @returns {MetricsSnapshot} 指标快照。
+     */
+    snapshot(): MetricsSnapshot {
+        const now = Date.now();
+        return {
+            since: this.since,
+            produced: this.produced,
+            consumed: this.consumed,
+            failed: this.failed,
+            retried: this.retried,
+            timedOut: this.timedOut,
+            producerWaits: this.producerWaits,
+            producerWaitMs: this.producerWaitMs,
+            queueLatencyMs: this.queueLatency.snapshot(),
+            consumeDurationMs: this.consumeDuration.snapshot(),
+            throughput: THROUGHPUT_WINDOWS_MS.map(windowMs => ({
+                windowMs,
+                produced: this.producedMeter.rate(windowMs, now),
+                consumed: this.consumedMeter.rate(windowMs, now)
+            }))
+        };
+    }
+}
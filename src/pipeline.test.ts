@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import ProdConsPQueue, { ProdConsError } from './index';
+import { Pipeline, pipeline } from './pipeline';
+
+const tick = (ms = 1) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('pipeline', () => {
+  it('每个阶段的输出应作为下一个阶段的数据项', async () => {
+    const written: string[] = [];
+    const flow = pipeline([
+      { queue: new ProdConsPQueue<string, number>({ concurrency: 2 }), consume: async (line) => Number(line) },
+      { queue: new ProdConsPQueue<number, number>(), consume: async (value) => value * 10 },
+      {
+        queue: new ProdConsPQueue<number, void>(),
+        consume: async (value) => {
+          written.push(`row ${value}`);
+        }
+      }
+    ]);
+
+    for (const line of ['1', '2', '3']) {
+      await flow.produce(async () => line);
+    }
+    await flow.waitForConsumption();
+
+    expect(written.sort()).toEqual(['row 10', 'row 20', 'row 30']);
+    expect(flow.getStats().pendingJobs).toBe(0);
+    await flow.destroy();
+  });
+
+  it('最后一个阶段的背压应传递到第一个阶段的生产者', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const flow = pipeline([
+      { queue: new ProdConsPQueue<number, number>({ slotAmount: 1 }), consume: async (value) => value },
+      {
+        queue: new ProdConsPQueue<number, number>({ slotAmount: 1 }),
+        consume: async (value) => {
+          await gate;
+          return value;
+        }
+      }
+    ]);
+
+    // 第二个阶段正在消费 1，第一个阶段占用唯一的槽位等待把 2 放入第二个阶段，3 和 4 的生产者等待
+    const producing = [1, 2, 3, 4].map(value => flow.produce(async () => value));
+    await tick(10);
+
+    const stats = flow.getStats();
+    expect(stats.isBlocked).toBe(true);
+    expect(stats.stages[1].isBlocked).toBe(true);
+    expect(stats.runningJobs).toBe(2);
+    expect(flow.stages[0].queue.getMetrics().produced).toBe(2);
+
+    release();
+    await Promise.all(producing);
+    await flow.waitForConsumption();
+    expect(flow.stages[1].queue.getMetrics().consumed).toBe(4);
+    await flow.destroy();
+  });
+
+  it('上下文应贯穿所有阶段', async () => {
+    const seen: unknown[] = [];
+    const flow = pipeline([
+      { queue: new ProdConsPQueue<number, number>(), consume: async (value) => value },
+      {
+        queue: new ProdConsPQueue<number, void>(),
+        consume: async (_value, _signal, context) => {
+          seen.push(context.values.requestId);
+        }
+      }
+    ]);
+
+    await flow.produce(async () => 1, { context: { requestId: 'r-1' } });
+    await flow.waitForConsumption();
+
+    expect(seen).toEqual(['r-1']);
+    await flow.destroy();
+  });
+
+  it('pause 和 start 应作用于所有阶段', async () => {
+    const consumed: number[] = [];
+    const flow = pipeline([
+      { queue: new ProdConsPQueue<number, number>(), consume: async (value) => value },
+      {
+        queue: new ProdConsPQueue<number, void>(),
+        consume: async (value) => {
+          consumed.push(value);
+        }
+      }
+    ]);
+
+    await flow.pause();
+    await flow.produce(async () => 1);
+    await tick(10);
+    expect(flow.getStats().stages.map(stats => stats.isPaused)).toEqual([true, true]);
+    expect(consumed).toEqual([]);
+
+    await flow.start();
+    await flow.waitForConsumption();
+    expect(consumed).toEqual([1]);
+    await flow.destroy();
+  });
+
+  it('close 应按顺序排空各个阶段，destroy 应销毁所有阶段', async () => {
+    const consumed: number[] = [];
+    const flow = pipeline([
+      {
+        queue: new ProdConsPQueue<number, number>(),
+        consume: async (value) => {
+          await tick(5);
+          return value;
+        }
+      },
+      {
+        queue: new ProdConsPQueue<number, void>(),
+        consume: async (value) => {
+          consumed.push(value);
+        }
+      }
+    ]);
+
+    await flow.produce(async () => 1);
+    await flow.produce(async () => 2);
+    const summaries = await flow.close();
+
+    expect(summaries).toHaveLength(2);
+    expect(summaries[0].completed).toBe(2);
+    expect(consumed).toEqual([1, 2]);
+
+    await flow.destroy();
+    await expect(flow.stages[1].queue.produce(async () => 3)).rejects.toThrow('destroyed');
+  });
+
+  it('没有阶段时应抛出错误', () => {
+    expect(() => new Pipeline([])).toThrow(ProdConsError);
+  });
+});
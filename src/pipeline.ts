@@ -0,0 +1,195 @@
+import type {
+    CloseOptions,
+    CloseSummary,
+    ConsumeFn,
+    ProdConsPQueue,
+    ProdConsStats,
+    ProduceFn,
+    ProduceOptions,
+    WaitOptions
+} from './index';
+import { ProdConsError } from './errors';
+
+/**
+ * 流水线中的一个阶段：一个队列以及处理该队列中数据项的消费函数。
+ * 消费函数的返回值会作为下一个阶段的数据项。
+ * @template TIn - 该阶段的数据项类型
+ * @template TOut - 该阶段的输出类型
+ */
+export interface PipelineStage<TIn = any, TOut = any> {
+    /** 该阶段的队列，使用它自己的 `slotAmount`、`concurrency`、重试策略等配置 */
+    queue: ProdConsPQueue<TIn, TOut>;
+    /** 该阶段的消费函数 */
+    consume: ConsumeFn<TIn, TOut>;
+}
+
+/**
+ * Pipeline.getStats() 返回的统计信息。
+ */
+export interface PipelineStats {
+    /** 各阶段的统计信息，按阶段顺序排列 */
+    stages: ProdConsStats[];
+    /** 所有阶段缓冲区中的待处理任务数之和 */
+    pendingJobs: number;
+    /** 所有阶段正在执行的任务数之和 */
+    runningJobs: number;
+    /** 第一个阶段是否阻塞，即向流水线生产时是否需要等待 */
+    isBlocked: boolean;
+}
+
+/**
+ * 由多个队列串联而成的流水线。
+ * 每个阶段的消费函数完成后，把返回值生产到下一个阶段，并在下一个阶段接收之前一直占用自己的槽位和并发名额，
+ * 因此最后一个阶段的背压会逐级传递到第一个阶段的生产者。
+ * 放入下一个阶段失败（例如等待槽位超时或下一个阶段已关闭）按该阶段的消费失败处理，遵循该阶段的重试策略和死信队列。
+ * 最后一个阶段的输出可以通过其队列的 'item-consumed' 事件或 `produceTracked` 获取。
+ * @template TIn - 第一个阶段的数据项类型
+ * @template TOut - 最后一个阶段的输出类型
+ */
+export class Pipeline<TIn = any, TOut = unknown> {
+    /**
+     * 按顺序排列的各个阶段
+     */
+    readonly stages: ReadonlyArray<PipelineStage>;
+
+    /**
+     * @param {PipelineStage[]} stages - 按顺序排列的各个阶段，至少一个。
+     * @throws {ProdConsError} 如果没有任何阶段。
+     */
+    constructor(stages: PipelineStage[]) {
+        if (stages.length === 0) {
+            throw new ProdConsError('A pipeline needs at least one stage');
+        }
+        this.stages = stages.slice();
+
+        this.stages.forEach(({ queue, consume }, index) => {
+            const next = this.stages[index + 1];
+            if (!next) {
+                queue.consume(consume);
+                return;
+            }
+            queue.consume(async (item, signal, context) => {
+                const output = await consume(item, signal, context);
+                // 沿用数据项的上下文，使追踪等信息贯穿整条流水线
+                await next.queue.produce(async () => output, { signal, context: context.values });
+                return output;
+            });
+        });
+    }
+
+    /**
+     * 向第一个阶段生产数据项，参数和语义与 `ProdConsPQueue.produce` 相同。
+     * @param {ProduceFn<TIn>} fn - 生产函数。
+     * @param {ProduceOptions} [options] - 生产参数。
+     * @returns {Promise<void>} 数据项放入第一个阶段后解析的 Promise。
+     */
+    async produce(fn: ProduceFn<TIn>, options?: ProduceOptions): Promise<void> {
+        await this.stages[0].queue.produce(fn, options);
+    }
+
+    /**
+     * 按阶段顺序等待每个阶段消费完成。前面的阶段完成时已把输出全部放入下一个阶段，
+     * 因此返回时整条流水线中已经生产的数据项都已处理完毕。
+     * @param {WaitOptions} [options={}] - 整体的超时和取消信号。
+     * @throws {QueueDestroyedError} 如果某个阶段已被销毁，或在等待期间被销毁。
+     * @throws {QueueTimeoutError} 如果等待超时。
+     * @returns {Promise<void>} 所有阶段都空闲时解析的 Promise。
+     */
+    async waitForConsumption(options: WaitOptions = {}): Promise<void> {
+        const { timeoutMs = 0, signal } = options;
+        const deadline = Date.now() + timeoutMs;
+
+        for (const { queue } of this.stages) {
+            // 各阶段分摊同一个超时，至少留 1 毫秒，避免 0 被当作不限制
+            const remaining = timeoutMs > 0 ? Math.max(1, deadline - Date.now()) : 0;
+            await queue.waitForConsumption({ timeoutMs: remaining, signal });
+        }
+    }
+
+    /**
+     * 暂停所有阶段的消费。
+     * @returns {Promise<void>} 所有阶段暂停后解析的 Promise。
+     */
+    async pause(): Promise<void> {
+        await Promise.all(this.stages.map(({ queue }) => queue.pause()));
+    }
+
+    /**
+     * 启动或恢复所有阶段的消费。
+     * @returns {Promise<void>}
+     */
+    async start(): Promise<void> {
+        await Promise.all(this.stages.map(({ queue }) => queue.start()));
+    }
+
+    /**
+     * 按阶段顺序关闭流水线。每个阶段关闭完成后再关闭下一个阶段，
+     * 因此 `drain` 方式下前面阶段的输出会继续流入后面的阶段并被处理。
+     * @param {CloseOptions} [options={}] - 每个阶段的关闭方式和超时。
+     * @returns {Promise<CloseSummary[]>} 各阶段的关闭结果，按阶段顺序排列。
+     */
+    async close(options: CloseOptions = {}): Promise<CloseSummary[]> {
+        const summaries: CloseSummary[] = [];
+        for (const { queue } of this.stages) {
+            summaries.push(await queue.close(options));
+        }
+        return summaries;
+    }
+
+    /**
+     * 按阶段顺序销毁所有阶段。
+     * @returns {Promise<void>} 所有阶段销毁后解析的 Promise。
+     */
+    async destroy(): Promise<void> {
+        for (const { queue } of this.stages) {
+            await queue.destroy();
+        }
+    }
+
+    /**
+     * 获取整条流水线的统计信息。
+     * @returns {PipelineStats} 各阶段的统计信息和汇总。
+     */
+    getStats(): PipelineStats {
+        const stages = this.stages.map(({ queue }) => queue.getStats());
+        return {
+            stages,
+            pendingJobs: stages.reduce((sum, stats) => sum + stats.pendingJobs, 0),
+            runningJobs: stages.reduce((sum, stats) => sum + stats.runningJobs, 0),
+            isBlocked: stages[0].isBlocked
+        };
+    }
+}
+
+/**
+ * 把多个队列串联成一条流水线，见 {@link Pipeline}。
+ * 相邻阶段的输出类型和输入类型需要一致；超过四个阶段时只检查第一个阶段的输入类型。
+ *
+ * @example
+ * ```typescript
+ * const etl = pipeline([
+ *   { queue: new ProdConsPQueue<string, Row>({ concurrency: 4 }), consume: parse },
+ *   { queue: new ProdConsPQueue<Row, Row>({ slotAmount: 100 }), consume: enrich },
+ *   { queue: new ProdConsPQueue<Row, void>({ concurrency: 2 }), consume: write }
+ * ]);
+ * await etl.produce(async () => line);
+ * await etl.waitForConsumption();
+ * ```
+ * @param {PipelineStage[]} stages - 按顺序排列的各个阶段，至少一个。
+ * @throws {ProdConsError} 如果没有任何阶段。
+ * @returns {Pipeline} 流水线。
+ */
+export function pipeline<A, B>(stages: [PipelineStage<A, B>]): Pipeline<A, B>;
+export function pipeline<A, B, C>(stages: [PipelineStage<A, B>, PipelineStage<B, C>]): Pipeline<A, C>;
+export function pipeline<A, B, C, D>(
+    stages: [PipelineStage<A, B>, PipelineStage<B, C>, PipelineStage<C, D>]
+): Pipeline<A, D>;
+export function pipeline<A, B, C, D, E>(
+    stages: [PipelineStage<A, B>, PipelineStage<B, C>, PipelineStage<C, D>, PipelineStage<D, E>]
+): Pipeline<A, E>;
+export function pipeline<A>(
+    stages: [PipelineStage<A>, PipelineStage, PipelineStage, PipelineStage, PipelineStage, ...PipelineStage[]]
+): Pipeline<A>;
+export function pipeline(stages: PipelineStage[]): Pipeline {
+    return new Pipeline(stages);
+}
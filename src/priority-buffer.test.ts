@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { PriorityBuffer } from './priority-buffer';
+
+describe('PriorityBuffer', () => {
+  it('同一优先级内应保持 FIFO', () => {
+    const buffer = new PriorityBuffer<string>();
+    ['a', 'b', 'c'].forEach(value => buffer.push(value));
+
+    expect(buffer.length).toBe(3);
+    expect([buffer.shift(), buffer.shift(), buffer.shift()]).toEqual(['a', 'b', 'c']);
+    expect(buffer.shift()).toBeUndefined();
+  });
+
+  it('优先级高的值应先出队', () => {
+    const buffer = new PriorityBuffer<string>();
+    buffer.push('low', -1);
+    buffer.push('normal');
+    buffer.push('high', 10);
+    buffer.push('normal2');
+
+    expect(buffer.peek()).toBe('high');
+    expect(buffer.toArray()).toEqual(['high', 'normal', 'normal2', 'low']);
+    expect(buffer.length).toBe(4);
+  });
+
+  it('同一优先级内应按 orderKey 升序出队', () => {
+    const buffer = new PriorityBuffer<string>();
+    buffer.push('third', 1, 30);
+    buffer.push('first', 1, 10);
+    buffer.push('second', 1, 20);
+
+    expect(buffer.clear()).toEqual(['first', 'second', 'third']);
+    expect(buffer.length).toBe(0);
+  });
+
+  it('应该能够按值移除', () => {
+    const buffer = new PriorityBuffer<{ id: number }>();
+    const values = Array.from({ length: 20 }, (_, id) => ({ id }));
+    values.forEach(value => buffer.push(value, value.id % 3));
+
+    expect(buffer.remove(values[7])).toBe(true);
+    expect(buffer.remove(values[7])).toBe(false);
+    expect(buffer.has(values[7])).toBe(false);
+    expect(buffer.has(values[8])).toBe(true);
+
+    const drained: number[] = [];
+    let value;
+    while ((value = buffer.shift()) !== undefined) {
+      drained.push(value.id);
+    }
+
+    expect(drained).toEqual([2, 5, 8, 11, 14, 17, 1, 4, 10, 13, 16, 19, 0, 3, 6, 9, 12, 15, 18]);
+  });
+
+  it('应该维护每个优先级的数量', () => {
+    const buffer = new PriorityBuffer<string>();
+    buffer.push('a', 1);
+    buffer.push('b', 1);
+    buffer.push('c', 5);
+
+    expect(buffer.countByPriority()).toEqual({ 1: 2, 5: 1 });
+
+    buffer.shift();
+    buffer.remove('a');
+
+    expect(buffer.countByPriority()).toEqual({ 1: 1 });
+  });
+
+  it('不允许重复放入同一个值', () => {
+    const buffer = new PriorityBuffer<string>();
+    buffer.push('a');
+
+    expect(() => buffer.push('a', 5)).toThrow('Value is already in the buffer');
+  });
+
+  it('find 应按出队顺序返回第一个满足条件的值', () => {
+    const buffer = new PriorityBuffer<number>();
+    for (let value = 0; value < 100; value++) {
+      buffer.push(value, value % 4);
+    }
+    const order = buffer.toArray();
+
+    for (const divisor of [1, 3, 5, 7, 11]) {
+      expect(buffer.find(value => value % divisor === 0)).toBe(order.find(value => value % divisor === 0));
+    }
+    expect(buffer.find(value => value > 100)).toBeUndefined();
+    expect(new PriorityBuffer<number>().find(() => true)).toBeUndefined();
+    expect(buffer.length).toBe(100);
+  });
+
+  it('values 应返回所有值且不修改缓冲区', () => {
+    const buffer = new PriorityBuffer<string>();
+    buffer.push('a');
+    buffer.push('b', 5);
+    buffer.push('c', 1);
+    buffer.remove('c');
+
+    expect(buffer.values().sort()).toEqual(['a', 'b']);
+    expect(buffer.shift()).toBe('b');
+  });
+
+  it('随机操作后出队顺序应与排序结果一致', () => {
+    const buffer = new PriorityBuffer<number>();
+    const expected: Array<{ value: number; priority: number }> = [];
+
+    for (let value = 0; value < 200; value++) {
+      const priority = Math.floor(Math.random() * 5);
+      buffer.push(value, priority);
+      expected.push({ value, priority });
+      if (value % 7 === 0) {
+        const removed = expected.splice(Math.floor(Math.random() * expected.length), 1)[0];
+        buffer.remove(removed.value);
+      }
+    }
+
+    expected.sort((a, b) => b.priority - a.priority || a.value - b.value);
+    const drained: number[] = [];
+    while (buffer.length > 0) {
+      drained.push(buffer.shift()!);
+    }
+
+    expect(drained).toEqual(expected.map(item => item.value));
+  });
+});
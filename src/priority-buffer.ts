@@ -0,0 +1,281 @@
+/**
+ * @private
+ * 堆中的节点，记录值以及用于排序的字段。
+ */
+interface HeapNode<T> {
+    value: T;
+    priority: number;
+    orderKey: number;
+}
+
+/**
+ * 基于二叉堆的优先级缓冲区。
+ * 优先级高的值先出队；同一优先级内按 `orderKey` 升序出队，
+ * 未指定 `orderKey` 时使用单调递增的入队序号，从而保证 FIFO。
+ * 插入、出队和按值移除的时间复杂度均为 O(log n)。
+ *
+ * @template T - 缓冲区中值的类型，同一个值（引用）不能重复放入
+ *
+ * @example
+ * ```typescript
+ * const buffer = new PriorityBuffer<string>();
+ * buffer.push('bulk');
+ * buffer.push('urgent', 10);
+ * buffer.shift(); // 'urgent'
+ * ```
+ */
+export class PriorityBuffer<T> {
+    /**
+     * @private
+     * 以数组表示的二叉堆
+     */
+    private heap: HeapNode<T>[] = [];
+    /**
+     * @private
+     * 值到其在堆中下标的映射，用于 O(log n) 移除
+     */
+    private positions: Map<T, number> = new Map();
+    /**
+     * @private
+     * 每个优先级当前的值数量
+     */
+    private priorityCounts: Map<number, number> = new Map();
+    /**
+     * @private
+     * 下一个默认的排序键（入队序号）
+     */
+    private sequence: number = 0;
+
+    /**
+     * 缓冲区中值的数量。
+     */
+    get length(): number {
+        return this.heap.length;
+    }
+
+    /**
+     * 放入一个值。
+     * @param {T} value - 要放入的值。
+     * @param {number} [priority=0] - 优先级，数值越大越先出队。
+     * @param {number} [orderKey] - 同一优先级内的排序键，数值越小越先出队。默认为入队序号。
+     * @throws {Error} 如果该值已在缓冲区中。
+     */
+    push(value: T, priority: number = 0, orderKey?: number): void {
+        if (this.positions.has(value)) {
+            throw new Error('Value is already in the buffer');
+        }
+
+        const node: HeapNode<T> = {
+            value,
+            priority,
+            orderKey: orderKey ?? this.sequence
+        };
+        this.sequence++;
+
+        this.heap.push(node);
+        this.positions.set(value, this.heap.length - 1);
+        this.siftUp(this.heap.length - 1);
+        this.priorityCounts.set(priority, (this.priorityCounts.get(priority) ?? 0) + 1);
+    }
+
+    /**
+     * 查看下一个将要出队的值，但不将其移除。
+     * @returns {T | undefined} 下一个值，缓冲区为空时返回 `undefined`。
+     */
+    peek(): T | undefined {
+        return this.heap.length > 0 ? this.heap[0].value : undefined;
+    }
+
+    /**
+     * 取出下一个值。
+     * @returns {T | undefined} 优先级最高的值，缓冲区为空时返回 `undefined`。
+     */
+    shift(): T | undefined {
+        if (this.heap.length === 0) {
+            return undefined;
+        }
+        return this.removeAt(0);
+    }
+
+    /**
+     * 判断某个值是否在缓冲区中。
+     * @param {T} value - 要查找的值。
+     * @returns {boolean} 是否存在。
+     */
+    has(value: T): boolean {
+        return this.positions.has(value);
+    }
+
+    /**
+     * 移除指定的值。
+     * @param {T} value - 要移除的值。
+     * @returns {boolean} 该值是否在缓冲区中并已被移除。
+     */
+    remove(value: T): boolean {
+        const index = this.positions.get(value);
+        if (index === undefined) {
+            return false;
+        }
+        this.removeAt(index);
+        return true;
+    }
+
+    /**
+     * 按出队顺序查找第一个满足条件的值，不会修改缓冲区。
+     * 只按堆的结构向下展开到找到为止，检查 k 个值的时间复杂度为 O(k log k)，不需要对整个缓冲区排序。
+     * @param {(value: T) => boolean} predicate - 判断条件。
+     * @returns {T | undefined} 第一个满足条件的值，没有时返回 `undefined`。
+     */
+    find(predicate: (value: T) => boolean): T | undefined {
+        if (this.heap.length === 0) {
+            return undefined;
+        }
+        // 以堆中的下标为值的候选堆：每取出一个节点，就把它的子节点加入候选
+        const frontier = new PriorityBuffer<number>();
+        frontier.push(0, this.heap[0].priority, this.heap[0].orderKey);
+        for (let index = frontier.shift(); index !== undefined; index = frontier.shift()) {
+            const node = this.heap[index];
+            if (predicate(node.value)) {
+                return node.value;
+            }
+            for (const child of [index * 2 + 1, index * 2 + 2]) {
+                if (child < this.heap.length) {
+                    frontier.push(child, this.heap[child].priority, this.heap[child].orderKey);
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 按堆中的存放顺序（不是出队顺序）返回所有值，不会修改缓冲区。适合不关心顺序的遍历，时间复杂度为 O(n)。
+     * @returns {T[]} 值的列表。
+     */
+    values(): T[] {
+        return this.heap.map(node => node.value);
+    }
+
+    /**
+     * 按出队顺序返回所有值，不会修改缓冲区。
+     * @returns {T[]} 值的列表。
+     */
+    toArray(): T[] {
+        return this.heap
+            .slice()
+            .sort((a, b) => this.compare(a, b))
+            .map(node => node.value);
+    }
+
+    /**
+     * 移除并按出队顺序返回所有值。
+     * @returns {T[]} 被移除的值的列表。
+     */
+    clear(): T[] {
+        const values = this.toArray();
+        this.heap = [];
+        this.positions.clear();
+        this.priorityCounts.clear();
+        return values;
+    }
+
+    /**
+     * 获取每个优先级当前的值数量。
+     * @returns {Record<number, number>} 以优先级为键、数量为值的对象。
+     */
+    countByPriority(): Record<number, number> {
+        const counts: Record<number, number> = {};
+        this.priorityCounts.forEach((count, priority) => {
+            counts[priority] = count;
+        });
+        return counts;
+    }
+
+    /**
+     * @private
+     * 比较两个节点，返回负数表示 `a` 应先于 `b` 出队。
+     */
+    private compare(a: HeapNode<T>, b: HeapNode<T>): number {
+        if (a.priority !== b.priority) {
+            return b.priority - a.priority;
+        }
+        return a.orderKey - b.orderKey;
+    }
+
+    /**
+     * @private
+     * 移除指定下标的节点并恢复堆的性质。
+     */
+    private removeAt(index: number): T {
+        const node = this.heap[index];
+        const last = this.heap.pop()!;
+
+        if (index < this.heap.length) {
+            this.heap[index] = last;
+            this.positions.set(last.value, index);
+            this.siftDown(this.siftUp(index));
+        }
+
+        this.positions.delete(node.value);
+        const count = (this.priorityCounts.get(node.priority) ?? 1) - 1;
+        if (count > 0) {
+            this.priorityCounts.set(node.priority, count);
+        } else {
+            this.priorityCounts.delete(node.priority);
+        }
+        return node.value;
+    }
+
+    /**
+     * @private
+     * 将节点向上调整，返回其最终下标。
+     */
+    private siftUp(index: number): number {
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.compare(this.heap[index], this.heap[parent]) >= 0) {
+                break;
+            }
+            this.swap(index, parent);
+            index = parent;
+        }
+        return index;
+    }
+
+    /**
+     * @private
+     * 将节点向下调整。
+     */
+    private siftDown(index: number): void {
+        const size = this.heap.length;
+        for (;;) {
+            const left = index * 2 + 1;
+            const right = left + 1;
+            let smallest = index;
+
+            if (left < size && this.compare(this.heap[left], this.heap[smallest]) < 0) {
+                smallest = left;
+            }
+            if (right < size && this.compare(this.heap[right], this.heap[smallest]) < 0) {
+                smallest = right;
+            }
+            if (smallest === index) {
+                return;
+            }
+            this.swap(index, smallest);
+            index = smallest;
+        }
+    }
+
+    /**
+     * @private
+     * 交换两个下标的节点并同步下标映射。
+     */
+    private swap(i: number, j: number): void {
+        const a = this.heap[i];
+        const b = this.heap[j];
+        this.heap[i] = b;
+        this.heap[j] = a;
+        this.positions.set(b.value, i);
+        this.positions.set(a.value, j);
+    }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { formatPrometheus } from './prometheus';
+import { QueueMetrics } from './metrics';
+
+describe('formatPrometheus', () => {
+  const metrics = new QueueMetrics();
+  metrics.recordProduced();
+  metrics.recordProduced();
+  metrics.recordConsumed();
+  metrics.recordProducerWait(1500);
+  metrics.consumeDuration.record(200);
+
+  it('应输出计数器、summary 和吞吐量', () => {
+    const text = formatPrometheus(metrics.snapshot());
+
+    expect(text).toContain('# TYPE prod_cons_pqueue_produced_total counter\nprod_cons_pqueue_produced_total 2\n');
+    expect(text).toContain('prod_cons_pqueue_consumed_total 1\n');
+    expect(text).toContain('prod_cons_pqueue_producer_wait_seconds_total 1.5\n');
+    expect(text).toContain('# TYPE prod_cons_pqueue_consume_duration_seconds summary\n');
+    expect(text).toContain('prod_cons_pqueue_consume_duration_seconds{quantile="0.99"} 0.2\n');
+    expect(text).toContain('prod_cons_pqueue_consume_duration_seconds_sum 0.2\n');
+    expect(text).toContain('prod_cons_pqueue_consume_duration_seconds_count 1\n');
+    expect(text).toContain('prod_cons_pqueue_throughput_per_second{direction="produced",window="10s"} 0.2\n');
+    expect(text).not.toContain('pending_jobs');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('应使用自定义前缀和标签，并输出瞬时状态', () => {
+    const text = formatPrometheus(metrics.snapshot(), {
+      prefix: 'jobs',
+      labels: { queue: 'say "hi"' },
+      stats: { pendingJobs: 3, runningJobs: 1, freeSlotAmount: 6, concurrency: 2 }
+    });
+
+    expect(text).toContain('jobs_produced_total{queue="say \\"hi\\""} 2\n');
+    expect(text).toContain('jobs_queue_latency_seconds{queue="say \\"hi\\"",quantile="0.5"} 0\n');
+    expect(text).toContain('jobs_pending_jobs{queue="say \\"hi\\""} 3\n');
+    expect(text).toContain('jobs_concurrency{queue="say \\"hi\\""} 2\n');
+  });
+});
@@ -0,0 +1,97 @@
+import type { HistogramSnapshot, MetricsSnapshot } from './metrics';
+
+/**
+ * formatPrometheus() 的可选参数。
+ */
+export interface PrometheusOptions {
+    /**
+     * 指标名称的前缀。
+     * @default 'prod_cons_pqueue'
+     */
+    prefix?: string;
+    /**
+     * 附加到每个指标上的标签，例如用于区分多个队列的 `{ queue: 'emails' }`。
+     */
+    labels?: Record<string, string>;
+    /**
+     * 可选的瞬时状态，通常来自 `getStats()`，会以 gauge 的形式输出。
+     */
+    stats?: {
+        pendingJobs: number;
+        runningJobs: number;
+        freeSlotAmount: number;
+        concurrency: number;
+    };
+}
+
+/**
+ * @private
+ * 转义标签值中的反斜杠、双引号和换行。
+ */
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * @private
+ * 将标签渲染为 `{a="1",b="2"}`，没有标签时返回空字符串。
+ */
+function renderLabels(labels: Record<string, string>): string {
+    const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * 将指标快照渲染为 Prometheus 文本格式（exposition format 0.0.4）。
+ * 计数器以 `_total` 结尾；耗时转换为秒，以 summary 的形式输出 0.5/0.95/0.99 分位数；
+ * 吞吐量以 gauge 的形式输出，按 `direction` 和 `window` 标签区分。
+ * @param {MetricsSnapshot} metrics - `getMetrics()` 返回的指标快照。
+ * @param {PrometheusOptions} [options={}] - 前缀、公共标签和瞬时状态。
+ * @returns {string} Prometheus 文本格式的指标。
+ */
+export function formatPrometheus(metrics: MetricsSnapshot, options: PrometheusOptions = {}): string {
+    const { prefix = 'prod_cons_pqueue', labels = {}, stats } = options;
+    const lines: string[] = [];
+
+    const metric = (name: string, type: string, help: string, samples: Array<[Record<string, string>, number, string?]>) => {
+        lines.push(`# HELP ${prefix}_${name} ${help}`);
+        lines.push(`# TYPE ${prefix}_${name} ${type}`);
+        samples.forEach(([extra, value, suffix = '']) => {
+            lines.push(`${prefix}_${name}${suffix}${renderLabels({ ...labels, ...extra })} ${value}`);
+        });
+    };
+    const counter = (name: string, help: string, value: number) => metric(name, 'counter', help, [[{}, value]]);
+    const gauge = (name: string, help: string, value: number) => metric(name, 'gauge', help, [[{}, value]]);
+    const summary = (name: string, help: string, histogram: HistogramSnapshot) => metric(name, 'summary', help, [
+        [{ quantile: '0.5' }, histogram.p50 / 1000],
+        [{ quantile: '0.95' }, histogram.p95 / 1000],
+        [{ quantile: '0.99' }, histogram.p99 / 1000],
+        [{}, histogram.sum / 1000, '_sum'],
+        [{}, histogram.count, '_count']
+    ]);
+
+    counter('produced_total', 'Items put into the buffer.', metrics.produced);
+    counter('consumed_total', 'Items consumed successfully.', metrics.consumed);
+    counter('failed_total', 'Items that exhausted their retries.', metrics.failed);
+    counter('retried_total', 'Consumer attempts that were retried.', metrics.retried);
+    counter('timed_out_total', 'Consumer attempts that timed out.', metrics.timedOut);
+    counter('producer_waits_total', 'Times a producer waited for a free slot.', metrics.producerWaits);
+    counter('producer_wait_seconds_total', 'Time producers spent waiting for a free slot.', metrics.producerWaitMs / 1000);
+    summary('queue_latency_seconds', 'Time from entering the buffer to the start of consumption.', metrics.queueLatencyMs);
+    summary('consume_duration_seconds', 'Duration of consumer calls.', metrics.consumeDurationMs);
+    metric('throughput_per_second', 'gauge', 'Average items per second over a sliding window.', metrics.throughput.flatMap(
+        ({ windowMs, produced, consumed }): Array<[Record<string, string>, number]> => [
+            [{ direction: 'produced', window: `${windowMs / 1000}s` }, produced],
+            [{ direction: 'consumed', window: `${windowMs / 1000}s` }, consumed]
+        ]
+    ));
+
+    if (stats) {
+        gauge('pending_jobs', 'Items waiting in the buffer.', stats.pendingJobs);
+        gauge('running_jobs', 'Items being consumed.', stats.runningJobs);
+        gauge('free_slots', 'Free buffer slots.', stats.freeSlotAmount);
+        gauge('concurrency', 'Consumer concurrency.', stats.concurrency);
+    }
+
+    return `${lines.join('\n')}\n`;
+}
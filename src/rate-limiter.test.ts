@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('令牌桶', () => {
+    it('应允许突发，并按平均速率补充令牌', () => {
+      const limiter = new RateLimiter({ limit: 2, intervalMs: 100 });
+
+      expect(limiter.tryAcquire(0)).toBe(0);
+      expect(limiter.tryAcquire(0)).toBe(0);
+      expect(limiter.tryAcquire(0)).toBe(50);
+      expect(limiter.tryAcquire(25)).toBe(25);
+      expect(limiter.tryAcquire(50)).toBe(0);
+    });
+
+    it('令牌数不应超过 burst', () => {
+      const limiter = new RateLimiter({ limit: 10, intervalMs: 1000, burst: 1 });
+
+      expect(limiter.tryAcquire(0)).toBe(0);
+      expect(limiter.getState(5000)).toEqual({
+        limit: 10,
+        intervalMs: 1000,
+        strategy: 'token-bucket',
+        available: 1,
+        waitMs: 0
+      });
+      expect(limiter.tryAcquire(5000)).toBe(0);
+      expect(limiter.tryAcquire(5000)).toBe(100);
+    });
+  });
+
+  describe('滑动窗口', () => {
+    it('任意窗口内不应超过 limit 次', () => {
+      const limiter = new RateLimiter({ limit: 2, intervalMs: 100, strategy: 'sliding-window' });
+
+      expect(limiter.tryAcquire(0)).toBe(0);
+      expect(limiter.tryAcquire(60)).toBe(0);
+      expect(limiter.tryAcquire(80)).toBe(20);
+      expect(limiter.getState(80)).toMatchObject({ available: 0, waitMs: 20 });
+      expect(limiter.tryAcquire(100)).toBe(0);
+      expect(limiter.tryAcquire(120)).toBe(40);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * 速率限制的配置。
+ */
+export interface RateLimit {
+    /** 每个时间窗口内允许的次数 */
+    limit: number;
+    /** 时间窗口的长度（毫秒） */
+    intervalMs: number;
+    /**
+     * 限流算法：`token-bucket` 按平均速率补充令牌，允许最多 `burst` 次的突发；
+     * `sliding-window` 保证任意长度为 `intervalMs` 的窗口内不超过 `limit` 次。
+     * @default 'token-bucket'
+     */
+    strategy?: 'token-bucket' | 'sliding-window';
+    /**
+     * 令牌桶的容量，仅对 `token-bucket` 有效。
+     * @default limit
+     */
+    burst?: number;
+}
+
+/**
+ * 限流器当前的状态。
+ */
+export interface RateLimitState {
+    /** 每个时间窗口内允许的次数 */
+    limit: number;
+    /** 时间窗口的长度（毫秒） */
+    intervalMs: number;
+    /** 限流算法 */
+    strategy: 'token-bucket' | 'sliding-window';
+    /** 当前无需等待即可使用的次数 */
+    available: number;
+    /** 下一次可用前需要等待的时长（毫秒），有可用次数时为 0 */
+    waitMs: number;
+}
+
+/**
+ * 令牌桶或滑动窗口限流器。
+ * 调用方通过 `tryAcquire()` 申请一次许可，拿不到时按返回的时长等待后重试。
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ limit: 10, intervalMs: 1000 });
+ * const waitMs = limiter.tryAcquire();
+ * if (waitMs > 0) {
+ *   // waitMs 毫秒后再试
+ * }
+ * ```
+ */
+export class RateLimiter {
+    /**
+     * @private
+     * 限流配置
+     */
+    private readonly limit: number;
+    /**
+     * @private
+     * 时间窗口（毫秒）
+     */
+    private readonly intervalMs: number;
+    /**
+     * @private
+     * 限流算法
+     */
+    private readonly strategy: 'token-bucket' | 'sliding-window';
+    /**
+     * @private
+     * 令牌桶容量
+     */
+    private readonly burst: number;
+    /**
+     * @private
+     * 令牌桶中当前的令牌数（可以是小数）
+     */
+    private tokens: number;
+    /**
+     * @private
+     * 上一次补充令牌的时间
+     */
+    private refilledAt: number;
+    /**
+     * @private
+     * 滑动窗口内每次许可的时间，按时间升序
+     */
+    private grants: number[] = [];
+
+    /**
+     * 创建一个限流器。令牌桶初始为满。
+     * @param {RateLimit} options - 限流配置。
+     */
+    constructor(options: RateLimit) {
+        const { limit, intervalMs, strategy = 'token-bucket', burst = limit } = options;
+        this.limit = limit;
+        this.intervalMs = intervalMs;
+        this.strategy = strategy;
+        this.burst = burst;
+        this.tokens = burst;
+        this.refilledAt = Date.now();
+    }
+
+    /**
+     * 尝试获取一次许可。
+     * @param {number} [now=Date.now()] - 当前时间。
+     * @returns {number} 获取成功时返回 0；否则返回距离下一次可用的时长（毫秒），此时不会占用许可。
+     */
+    tryAcquire(now: number = Date.now()): number {
+        const waitMs = this.computeWait(now);
+        if (waitMs > 0) {
+            return waitMs;
+        }
+
+        if (this.strategy === 'token-bucket') {
+            this.tokens -= 1;
+        } else {
+            this.grants.push(now);
+        }
+        return 0;
+    }
+
+    /**
+     * 获取限流器当前的状态。
+     * @param {number} [now=Date.now()] - 当前时间。
+     * @returns {RateLimitState} 当前状态。
+     */
+    getState(now: number = Date.now()): RateLimitState {
+        const waitMs = this.computeWait(now);
+        const available = this.strategy === 'token-bucket'
+            ? Math.floor(this.tokens)
+            : this.limit - this.grants.length;
+
+        return {
+            limit: this.limit,
+            intervalMs: this.intervalMs,
+            strategy: this.strategy,
+            available: Math.max(0, available),
+            waitMs
+        };
+    }
+
+    /**
+     * @private
+     * 更新内部状态，并计算下一次可用前需要等待的时长。
+     */
+    private computeWait(now: number): number {
+        if (this.strategy === 'token-bucket') {
+            const rate = this.limit / this.intervalMs;
+            this.tokens = Math.min(this.burst, this.tokens + (now - this.refilledAt) * rate);
+            this.refilledAt = now;
+            return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / rate);
+        }
+
+        while (this.grants.length > 0 && this.grants[0] <= now - this.intervalMs) {
+            this.grants.shift();
+        }
+        return this.grants.length < this.limit ? 0 : this.grants[0] + this.intervalMs - now;
+    }
+}
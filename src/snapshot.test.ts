@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import ProdConsPQueue, { MemoryBufferStore, ProdConsError } from './index';
+import { JsonSnapshotSerializer, StructuredCloneSnapshotSerializer, type QueueSnapshot } from './snapshot';
+
+describe('snapshot', () => {
+  it('快照应包含缓冲区中的数据项、配置和累计计数', async () => {
+    const queue = new ProdConsPQueue<string>({ slotAmount: 5, concurrency: 2 });
+    await queue.produce(async () => 'low', { priority: -1 });
+    await queue.produce(async () => 'high', { priority: 1, partitionKey: 'p', context: { traceparent: 't' } });
+    await queue.produce(async () => 'later', { delayMs: 60_000 });
+
+    const snapshot = queue.snapshot();
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.config).toEqual({ slotAmount: 5, concurrency: 2 });
+    expect(snapshot.items.map(record => record.item)).toEqual(['high', 'low', 'later']);
+    expect(snapshot.items[0]).toMatchObject({ priority: 1, partitionKey: 'p', context: { traceparent: 't' } });
+    expect(snapshot.items[2].runAt).toBeGreaterThan(Date.now());
+    expect(snapshot.counters).toMatchObject({ produced: 3, consumed: 0 });
+    expect(queue.getPendingJobs()).toBe(2);
+    await queue.destroy();
+  });
+
+  it('restore 应重建一个已暂停的队列，start 后按原来的顺序消费', async () => {
+    const source = new ProdConsPQueue<string>({ slotAmount: 3, concurrency: 1 });
+    source.consume(async () => {});
+    await source.produce(async () => 'done');
+    await source.waitForConsumption();
+    await source.pause();
+    for (const item of ['a', 'b', 'c']) {
+      await source.produce(async () => item);
+    }
+
+    const restored = ProdConsPQueue.restore<string>(source.snapshot());
+    await source.destroy();
+    const consumed: string[] = [];
+    restored.consume(async item => {
+      consumed.push(item);
+    });
+    expect(restored.getStats().isPaused).toBe(true);
+    expect(restored.getSlotAmount()).toBe(3);
+
+    await restored.start();
+    await restored.waitForConsumption();
+    expect(consumed).toEqual(['a', 'b', 'c']);
+    expect(restored.getMetrics()).toMatchObject({ produced: 4, consumed: 4 });
+    await restored.destroy();
+  });
+
+  it('还原的队列设置消费者后，在 start 之前不应取出数据项', async () => {
+    const source = new ProdConsPQueue<string>();
+    await source.produce(async () => 'a');
+    await source.produce(async () => 'b');
+    const snapshot = source.snapshot();
+    await source.destroy();
+
+    const single = ProdConsPQueue.restore<string>(snapshot);
+    const grouped = ProdConsPQueue.restore<string>(snapshot);
+    const consumed: string[] = [];
+    single.consume(async item => {
+      consumed.push(`single ${item}`);
+    });
+    grouped.consumeGroup('index', async item => {
+      consumed.push(`group ${item}`);
+    });
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(consumed).toEqual([]);
+    for (const queue of [single, grouped]) {
+      expect(queue.getStats()).toMatchObject({ isPaused: true, pendingJobs: 2, runningJobs: 0 });
+    }
+
+    await Promise.all([single.start(), grouped.start()]);
+    await Promise.all([single.waitForConsumption(), grouped.waitForConsumption()]);
+    expect(consumed.sort()).toEqual(['group a', 'group b', 'single a', 'single b']);
+    await Promise.all([single.destroy(), grouped.destroy()]);
+  });
+
+  it('还原后同一分区内应保持放入顺序，不受优先级影响', async () => {
+    const source = new ProdConsPQueue<string>();
+    await source.produce(async () => 'a1', { partitionKey: 'a' });
+    await source.produce(async () => 'a2', { partitionKey: 'a', priority: 5 });
+    await source.produce(async () => 'x', { priority: 1 });
+    const snapshot = source.snapshot();
+    await source.destroy();
+
+    expect(snapshot.items.map(record => [record.item, record.partitionIndex])).toEqual([['a2', 1], ['x', undefined], ['a1', 0]]);
+    const restored = ProdConsPQueue.restore<string>(new JsonSnapshotSerializer<string>().serialize(snapshot), {
+      serializer: new JsonSnapshotSerializer<string>(),
+      concurrency: 1
+    });
+    const consumed: string[] = [];
+    restored.consume(async item => {
+      consumed.push(item);
+    });
+    await restored.start();
+    await restored.waitForConsumption();
+
+    expect(consumed).toEqual(['x', 'a1', 'a2']);
+    await restored.destroy();
+  });
+
+  it('JSON 和结构化克隆序列化后应能还原', async () => {
+    const queue = new ProdConsPQueue<{ at: Date }>();
+    const at = new Date(0);
+    await queue.produce(async () => ({ at }));
+
+    const json = new JsonSnapshotSerializer<{ at: Date }>();
+    const encoded = queue.snapshot(json);
+    expect(typeof encoded).toBe('string');
+    const fromJson = ProdConsPQueue.restore(encoded, { serializer: json, slotAmount: 20 });
+    expect(fromJson.getSlotAmount()).toBe(20);
+    expect(fromJson.snapshot().items[0].item).toEqual({ at: at.toISOString() });
+
+    const cloned = queue.snapshot(new StructuredCloneSnapshotSerializer());
+    cloned.items[0].item.at.setTime(1000);
+    const fromClone = ProdConsPQueue.restore(cloned, { serializer: new StructuredCloneSnapshotSerializer() });
+    expect(fromClone.snapshot().items[0].item.at).toEqual(new Date(1000));
+    expect(at.getTime()).toBe(0);
+
+    await Promise.all([queue.destroy(), fromJson.destroy(), fromClone.destroy()]);
+  });
+
+  it('还原的数据项应写入新队列的存储并重新编号', async () => {
+    const store = new MemoryBufferStore<string>();
+    const existing = new ProdConsPQueue<string>({ store });
+    await existing.produce(async () => 'existing');
+    await existing.destroy();
+
+    const source = new ProdConsPQueue<string>();
+    await source.produce(async () => 'migrated');
+    const restored = ProdConsPQueue.restore<string>(source.snapshot(), { store });
+
+    const records = store.load();
+    expect(records.map(record => record.item)).toEqual(['existing', 'migrated']);
+    expect(new Set(records.map(record => record.id)).size).toBe(2);
+    expect(restored.getPendingJobs()).toBe(2);
+    await Promise.all([source.destroy(), restored.destroy()]);
+  });
+
+  it('不支持的快照版本应抛出错误', () => {
+    const snapshot = { version: 99, createdAt: 0, config: { slotAmount: 1, concurrency: 1 }, items: [] } as unknown as QueueSnapshot;
+    expect(() => ProdConsPQueue.restore(snapshot)).toThrow(ProdConsError);
+  });
+});
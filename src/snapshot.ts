@@ -0,0 +1,100 @@
+import type { StoredItem } from './buffer-store';
+import type { ProdConsStats } from './index';
+import { ProdConsError } from './errors';
+
+/**
+ * 快照格式的版本，格式不兼容地变化时递增。
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * ProdConsPQueue.snapshot() 返回的队列状态描述，可以交给 `ProdConsPQueue.restore` 在另一个进程中重建队列。
+ * @template TItem - 数据项类型
+ */
+export interface QueueSnapshot<TItem = any> {
+    /** 快照格式的版本，见 {@link SNAPSHOT_VERSION} */
+    version: number;
+    /** 生成快照的时间戳（毫秒） */
+    createdAt: number;
+    /** 队列的配置 */
+    config: {
+        slotAmount: number;
+        concurrency: number;
+    };
+    /**
+     * 缓冲区中和等待到期的数据项，按出队顺序排列（等待到期的在后，按到期时间排列）。
+     * 正在消费、以及已分发给消费者组尚未开始消费的数据项不包含在内。
+     */
+    items: StoredItem<TItem>[];
+    /** 累计计数 */
+    counters: {
+        produced: number;
+        consumed: number;
+        failed: number;
+        retried: number;
+        timedOut: number;
+        overflow: ProdConsStats['overflow'];
+        deduplicated: ProdConsStats['deduplicated'];
+    };
+}
+
+/**
+ * 快照的序列化方式，用于把快照转换为可以跨进程传递的形式并还原。
+ * @template TItem - 数据项类型
+ * @template TEncoded - 序列化结果的类型
+ */
+export interface SnapshotSerializer<TItem = any, TEncoded = unknown> {
+    /**
+     * 序列化快照。
+     * @param {QueueSnapshot<TItem>} snapshot - 队列快照。
+     * @returns {TEncoded} 序列化结果。
+     */
+    serialize(snapshot: QueueSnapshot<TItem>): TEncoded;
+    /**
+     * 还原快照。
+     * @param {TEncoded} data - `serialize` 的结果。
+     * @returns {QueueSnapshot<TItem>} 队列快照。
+     */
+    deserialize(data: TEncoded): QueueSnapshot<TItem>;
+}
+
+/**
+ * 以 JSON 字符串序列化快照，适合写入文件或通过网络传递。数据项必须能被 `JSON.stringify` 序列化。
+ * @template TItem - 数据项类型
+ */
+export class JsonSnapshotSerializer<TItem = any> implements SnapshotSerializer<TItem, string> {
+    serialize(snapshot: QueueSnapshot<TItem>): string {
+        return JSON.stringify(snapshot);
+    }
+
+    deserialize(data: string): QueueSnapshot<TItem> {
+        return JSON.parse(data) as QueueSnapshot<TItem>;
+    }
+}
+
+/**
+ * 以结构化克隆复制快照，适合通过 `postMessage` 传给 Worker 或子进程。
+ * 数据项可以包含 `Date`、`Map`、`Set`、二进制数据等 JSON 不支持的类型，但不能包含函数。
+ * @template TItem - 数据项类型
+ */
+export class StructuredCloneSnapshotSerializer<TItem = any> implements SnapshotSerializer<TItem, QueueSnapshot<TItem>> {
+    serialize(snapshot: QueueSnapshot<TItem>): QueueSnapshot<TItem> {
+        return clone(snapshot);
+    }
+
+    deserialize(data: QueueSnapshot<TItem>): QueueSnapshot<TItem> {
+        return clone(data);
+    }
+}
+
+/**
+ * @private
+ * 使用运行环境提供的 `structuredClone` 深拷贝一个值。
+ * @throws {ProdConsError} 如果运行环境不支持 `structuredClone`（Node.js 17 之前）。
+ */
+function clone<T>(value: T): T {
+    if (typeof globalThis.structuredClone !== 'function') {
+        throw new ProdConsError('structuredClone is not available in this environment');
+    }
+    return globalThis.structuredClone(value);
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import ProdConsPQueue from './index';
+import { toNodeReadable, toNodeWritable, toReadableStream, toWritableStream } from './streams';
+
+const tick = (ms = 1) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('流适配器', () => {
+  let queue: ProdConsPQueue<number, number>;
+
+  afterEach(async () => {
+    await queue.destroy();
+  });
+
+  describe('toNodeWritable', () => {
+    it('写入的块应放入队列', async () => {
+      queue = new ProdConsPQueue({ slotAmount: 10 });
+      const consumed: number[] = [];
+      queue.consume(async (data) => {
+        consumed.push(data);
+        return data;
+      });
+
+      await pipeline(Readable.from([1, 2, 3]), toNodeWritable(queue));
+      await queue.waitForEmpty();
+
+      expect(consumed).toEqual([1, 2, 3]);
+    });
+
+    it('队列阻塞时 write() 应返回 false', async () => {
+      queue = new ProdConsPQueue({ slotAmount: 1 });
+      const writable = toNodeWritable(queue, { highWaterMark: 2 });
+
+      expect(writable.write(1)).toBe(true);
+      await tick();
+      expect(queue.isBlocked()).toBe(true);
+
+      expect(writable.write(2)).toBe(true);
+      expect(writable.write(3)).toBe(false);
+      await tick();
+      expect(queue.getPendingJobs()).toBe(1);
+
+      let drained = false;
+      writable.once('drain', () => {
+        drained = true;
+      });
+      queue.consume(async (data) => data);
+      await tick(10);
+
+      expect(drained).toBe(true);
+      writable.destroy();
+    });
+  });
+
+  describe('toNodeReadable', () => {
+    it('应产出消费结果，并在销毁时结束', async () => {
+      queue = new ProdConsPQueue();
+      queue.consume(async (data) => data * 2);
+      const results: number[] = [];
+      const readable = toNodeReadable(queue);
+      const collecting = pipeline(readable, new Writable({
+        objectMode: true,
+        write(chunk, _encoding, callback) {
+          results.push(chunk);
+          callback();
+        }
+      }));
+
+      for (let i = 1; i <= 3; i++) {
+        await queue.produce(async () => i);
+      }
+      await queue.waitForEmpty();
+      await queue.destroy();
+      await collecting;
+
+      expect(results).toEqual([2, 4, 6]);
+    });
+
+    it('读取方跟不上时应暂停消费，读取后恢复', async () => {
+      queue = new ProdConsPQueue({ slotAmount: 10 });
+      queue.consume(async (data) => data);
+      const readable = toNodeReadable(queue, { highWaterMark: 2 });
+
+      for (let i = 0; i < 5; i++) {
+        await queue.produce(async () => i);
+      }
+      await tick(5);
+
+      expect(queue.getStats().isPaused).toBe(true);
+      expect(queue.getPendingJobs()).toBeGreaterThan(0);
+
+      const results: number[] = [];
+      for await (const result of readable) {
+        results.push(result);
+        if (results.length === 5) break;
+      }
+
+      expect(results).toEqual([0, 1, 2, 3, 4]);
+    });
+  });
+
+  describe('WHATWG 流', () => {
+    it('toWritableStream 的写入应在队列阻塞时挂起', async () => {
+      queue = new ProdConsPQueue({ slotAmount: 1 });
+      const writer = toWritableStream(queue).getWriter();
+
+      await writer.write(1);
+      let secondWritten = false;
+      const second = writer.write(2).then(() => {
+        secondWritten = true;
+      });
+      await tick();
+
+      expect(secondWritten).toBe(false);
+      expect(writer.desiredSize).toBe(0);
+
+      queue.consume(async (data) => data);
+      await second;
+      expect(secondWritten).toBe(true);
+    });
+
+    it('toReadableStream 应产出消费结果，并在销毁时关闭', async () => {
+      queue = new ProdConsPQueue();
+      queue.consume(async (data) => data + 100);
+      const reader = toReadableStream(queue).getReader();
+
+      await queue.produce(async () => 1);
+      await queue.produce(async () => 2);
+
+      expect(await reader.read()).toEqual({ value: 101, done: false });
+      expect(await reader.read()).toEqual({ value: 102, done: false });
+
+      await queue.destroy();
+      expect(await reader.read()).toEqual({ value: undefined, done: true });
+    });
+
+    it('关闭完成后创建的可读流应直接结束', async () => {
+      queue = new ProdConsPQueue();
+      await queue.close();
+
+      expect(await toReadableStream(queue).getReader().read()).toEqual({ value: undefined, done: true });
+      const results: number[] = [];
+      for await (const result of toNodeReadable(queue)) {
+        results.push(result);
+      }
+      expect(results).toEqual([]);
+    });
+
+    it('toReadableStream 的读取方跟不上时应暂停消费', async () => {
+      queue = new ProdConsPQueue({ slotAmount: 10 });
+      queue.consume(async (data) => data);
+      const reader = toReadableStream(queue, { highWaterMark: 1 }).getReader();
+
+      for (let i = 0; i < 3; i++) {
+        await queue.produce(async () => i);
+      }
+      await tick(5);
+      expect(queue.getStats().isPaused).toBe(true);
+
+      const results: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        results.push((await reader.read()).value!);
+      }
+
+      expect(results).toEqual([0, 1, 2]);
+      expect(queue.getStats().isPaused).toBe(false);
+      await reader.cancel();
+    });
+  });
+});
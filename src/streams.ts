@@ -0,0 +1,190 @@
+import { Readable, Writable } from 'node:stream';
+import { CountQueuingStrategy, ReadableStream, WritableStream } from 'node:stream/web';
+import type { ProdConsPQueue, ProduceOptions } from './index';
+
+/**
+ * 可写流适配器的选项。
+ */
+export interface WritableAdapterOptions extends ProduceOptions {
+    /**
+     * 流自身缓冲的最大块数。队列阻塞后写入会在流中累积，达到该数量时写入方收到背压信号。
+     * 默认使用流实现自身的默认值（Node.js 对象模式为 16，WHATWG 流为 1）。
+     */
+    highWaterMark?: number;
+}
+
+/**
+ * 可读流适配器的选项。
+ */
+export interface ReadableAdapterOptions {
+    /**
+     * 流自身缓冲的最大结果数。超过后暂停队列的消费，直到读取方继续读取。
+     * @default 16
+     */
+    highWaterMark?: number;
+}
+
+/**
+ * @private
+ * 让可读流在读取方跟不上时暂停队列的消费，并在恢复读取时继续消费。
+ * 只会恢复由适配器自己暂停的消费，不会影响用户主动调用的 `pause()`。
+ */
+function createConsumptionValve(queue: ProdConsPQueue<any, any>) {
+    let pausedByStream = false;
+    return {
+        close(): void {
+            if (!pausedByStream) {
+                pausedByStream = true;
+                void queue.pause();
+            }
+        },
+        open(): void {
+            if (pausedByStream) {
+                pausedByStream = false;
+                void queue.start();
+            }
+        }
+    };
+}
+
+/**
+ * 创建一个 Node.js 对象模式的可写流，写入的每个块都会通过 `produce` 放入队列。
+ * 队列阻塞时写入回调会被推迟，流的背压（`write()` 返回 `false`）因此与 `isBlocked()` 保持一致。
+ * @param {ProdConsPQueue<TItem, any>} queue - 目标队列。
+ * @param {WritableAdapterOptions} [options={}] - 流和生产参数。
+ * @returns {Writable} 可写流。
+ */
+export function toNodeWritable<TItem>(
+    queue: ProdConsPQueue<TItem, any>,
+    options: WritableAdapterOptions = {}
+): Writable {
+    const { highWaterMark, ...produceOptions } = options;
+
+    return new Writable({
+        objectMode: true,
+        ...(highWaterMark !== undefined && { highWaterMark }),
+        write(chunk: TItem, _encoding, callback) {
+            queue.produce(async () => chunk, produceOptions).then(() => callback(), callback);
+        }
+    });
+}
+
+/**
+ * 创建一个 Node.js 对象模式的可读流，按顺序产出消费函数的返回值。
+ * 读取方跟不上时暂停队列的消费，缓冲区随之填满，最终通过 `isBlocked()` 阻塞生产者。
+ * 实例被销毁或关闭完成时流结束，在此之后创建的流直接结束。由于 `null` 表示流结束，消费结果不应为 `null`。
+ * @param {ProdConsPQueue<any, TResult>} queue - 来源队列。
+ * @param {ReadableAdapterOptions} [options={}] - 流参数。
+ * @returns {Readable} 可读流。
+ */
+export function toNodeReadable<TResult>(
+    queue: ProdConsPQueue<any, TResult>,
+    options: ReadableAdapterOptions = {}
+): Readable {
+    const { highWaterMark = 16 } = options;
+    const valve = createConsumptionValve(queue);
+
+    const onConsumed = ({ result }: { result: TResult }) => {
+        if (!readable.push(result)) {
+            valve.close();
+        }
+    };
+    const onEnd = () => readable.push(null);
+
+    const readable = new Readable({
+        objectMode: true,
+        highWaterMark,
+        read() {
+            valve.open();
+        },
+        destroy(error, callback) {
+            queue.off('item-consumed', onConsumed);
+            queue.off('destroy', onEnd);
+            queue.off('close', onEnd);
+            valve.open();
+            callback(error);
+        }
+    });
+
+    if (queue.isEnded()) {
+        readable.push(null);
+        return readable;
+    }
+    queue.on('item-consumed', onConsumed);
+    queue.on('destroy', onEnd);
+    queue.on('close', onEnd);
+    return readable;
+}
+
+/**
+ * 创建一个 WHATWG `WritableStream`，写入的每个块都会通过 `produce` 放入队列。
+ * 队列阻塞时写入 Promise 保持挂起，`desiredSize` 随之降低，背压与 `isBlocked()` 保持一致。
+ * @param {ProdConsPQueue<TItem, any>} queue - 目标队列。
+ * @param {WritableAdapterOptions} [options={}] - 流和生产参数。
+ * @returns {WritableStream<TItem>} 可写流。
+ */
+export function toWritableStream<TItem>(
+    queue: ProdConsPQueue<TItem, any>,
+    options: WritableAdapterOptions = {}
+): WritableStream<TItem> {
+    const { highWaterMark = 1, ...produceOptions } = options;
+
+    return new WritableStream<TItem>({
+        write(chunk) {
+            return queue.produce(async () => chunk, produceOptions);
+        }
+    }, new CountQueuingStrategy({ highWaterMark }));
+}
+
+/**
+ * 创建一个 WHATWG `ReadableStream`，按顺序产出消费函数的返回值。
+ * 读取方跟不上（`desiredSize <= 0`）时暂停队列的消费，读取方继续拉取时恢复。
+ * 实例被销毁或关闭完成时流结束，在此之后创建的流直接结束。
+ * @param {ProdConsPQueue<any, TResult>} queue - 来源队列。
+ * @param {ReadableAdapterOptions} [options={}] - 流参数。
+ * @returns {ReadableStream<TResult>} 可读流。
+ */
+export function toReadableStream<TResult>(
+    queue: ProdConsPQueue<any, TResult>,
+    options: ReadableAdapterOptions = {}
+): ReadableStream<TResult> {
+    const { highWaterMark = 16 } = options;
+    const valve = createConsumptionValve(queue);
+    let onConsumed: (event: { result: TResult }) => void = () => {};
+    let onEnd: () => void = () => {};
+
+    const detach = () => {
+        queue.off('item-consumed', onConsumed);
+        queue.off('destroy', onEnd);
+        queue.off('close', onEnd);
+    };
+
+    return new ReadableStream<TResult>({
+        start(controller) {
+            onConsumed = ({ result }) => {
+                controller.enqueue(result);
+                if ((controller.desiredSize ?? 0) <= 0) {
+                    valve.close();
+                }
+            };
+            onEnd = () => {
+                detach();
+                controller.close();
+            };
+            if (queue.isEnded()) {
+                controller.close();
+                return;
+            }
+            queue.on('item-consumed', onConsumed);
+            queue.on('destroy', onEnd);
+            queue.on('close', onEnd);
+        },
+        pull() {
+            valve.open();
+        },
+        cancel() {
+            detach();
+            valve.open();
+        }
+    }, new CountQueuingStrategy({ highWaterMark }));
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import type { ItemContext } from './hooks';
+import { InMemorySpanRecorder, TracingHooks, formatTraceparent, parseTraceparent } from './tracing';
+
+function createContext(values: Record<string, unknown> = {}): ItemContext<string> {
+  return { id: 1, stage: 'produce', item: undefined, attempt: 0, values };
+}
+
+describe('traceparent', () => {
+  it('应能格式化并解析 W3C traceparent', () => {
+    const header = formatTraceparent({ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331' });
+
+    expect(header).toBe('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01');
+    expect(parseTraceparent(header)).toEqual({
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      traceFlags: 1
+    });
+  });
+
+  it('格式不正确时应返回 undefined', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('00-abc-def-01')).toBeUndefined();
+    expect(parseTraceparent('ff-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01')).toBeUndefined();
+  });
+});
+
+describe('TracingHooks', () => {
+  it('生产 span 应写入传播键，每次消费尝试都应成为它的子 span', () => {
+    const recorder = new InMemorySpanRecorder();
+    const tracing = new TracingHooks<string>(recorder, { name: 'jobs', propagationKey: 'trace' });
+    const context = createContext();
+
+    tracing.beforeProduce(context);
+    context.item = 'a';
+    tracing.afterProduce(context);
+    const [produce] = recorder.getFinishedSpans();
+    expect(produce).toMatchObject({ name: 'jobs produce', status: { code: 'ok' } });
+    expect(produce.parentSpanId).toBeUndefined();
+    expect(context.values.trace).toBe(formatTraceparent({ traceId: produce.traceId, spanId: produce.spanId }));
+
+    context.stage = 'consume';
+    context.attempt = 1;
+    tracing.beforeConsume(context);
+    tracing.onError(context, new Error('消费失败'));
+    context.attempt = 2;
+    tracing.beforeConsume(context);
+    expect(tracing.getSpan(context)).toBeDefined();
+    tracing.afterConsume(context);
+    expect(tracing.getSpan(context)).toBeUndefined();
+
+    const [, failed, succeeded] = recorder.getFinishedSpans();
+    expect(failed).toMatchObject({
+      name: 'jobs consume',
+      parentSpanId: produce.spanId,
+      attributes: { 'messaging.attempt': 1 },
+      status: { code: 'error', message: '消费失败' }
+    });
+    expect(failed.exceptions).toHaveLength(1);
+    expect(succeeded).toMatchObject({
+      parentSpanId: produce.spanId,
+      attributes: { 'messaging.attempt': 2 },
+      status: { code: 'ok' }
+    });
+  });
+});
+
+describe('InMemorySpanRecorder', () => {
+  it('应区分进行中和已结束的 span，并能清空记录', () => {
+    const recorder = new InMemorySpanRecorder();
+    const root = recorder.startSpan('root', { kind: 'producer', attributes: { a: 1 } });
+    const child = recorder.startSpan('child', { kind: 'consumer', parent: root.spanContext() });
+    child.setAttribute('b', true);
+    child.end();
+
+    expect(recorder.getSpans()).toHaveLength(2);
+    expect(recorder.getFinishedSpans()).toEqual([
+      expect.objectContaining({
+        name: 'child',
+        traceId: root.spanContext().traceId,
+        parentSpanId: root.spanContext().spanId,
+        attributes: { b: true },
+        status: { code: 'unset' }
+      })
+    ]);
+    expect(root.spanContext().traceId).toMatch(/^[0-9a-f]{32}$/);
+
+    recorder.reset();
+    expect(recorder.getSpans()).toEqual([]);
+  });
+});
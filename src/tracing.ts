@@ -0,0 +1,327 @@
+import type { ItemContext, ProdConsHooks } from './hooks';
+
+/**
+ * 标识一个 span 的追踪上下文，与 W3C Trace Context 对应。
+ */
+export interface SpanContext {
+    /** 32 位十六进制的 trace 编号 */
+    traceId: string;
+    /** 16 位十六进制的 span 编号 */
+    spanId: string;
+    /**
+     * W3C `trace-flags`，`1` 表示被采样。
+     * @default 1
+     */
+    traceFlags?: number;
+}
+
+/** span 属性的取值类型 */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Tracer.startSpan() 的参数。
+ */
+export interface SpanOptions {
+    /** span 的类型：生产一侧为 `producer`，消费一侧为 `consumer` */
+    kind: 'producer' | 'consumer';
+    /** 父 span 的追踪上下文，没有时开始一条新的 trace */
+    parent?: SpanContext;
+    /** 初始属性 */
+    attributes?: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * 一个进行中的 span，是 OpenTelemetry `Span` 的最小子集。
+ */
+export interface Span {
+    /** 获取该 span 的追踪上下文 */
+    spanContext(): SpanContext;
+    /** 设置一个属性 */
+    setAttribute(key: string, value: SpanAttributeValue): void;
+    /** 设置状态 */
+    setStatus(status: { code: 'ok' | 'error'; message?: string }): void;
+    /** 记录一个异常 */
+    recordException(error: unknown): void;
+    /** 结束该 span */
+    end(): void;
+}
+
+/**
+ * 创建 span 的追踪器，是 OpenTelemetry `Tracer` 的最小子集。
+ * 接入 OpenTelemetry 时只需把 `startSpan` 转发给真正的 tracer，并用 `parent` 构造父上下文。
+ */
+export interface Tracer {
+    /**
+     * 开始一个 span。
+     * @param {string} name - span 名称。
+     * @param {SpanOptions} options - span 的类型、父上下文和初始属性。
+     * @returns {Span} 新的 span。
+     */
+    startSpan(name: string, options: SpanOptions): Span;
+}
+
+/**
+ * TracingHooks 的可选参数。
+ */
+export interface TracingHooksOptions {
+    /**
+     * span 名称的前缀，生产和消费的 span 分别命名为 `<name> produce` 和 `<name> consume`。
+     * @default 'prod-cons-pqueue'
+     */
+    name?: string;
+    /**
+     * 在 `ItemContext.values` 中保存 W3C `traceparent` 的键。
+     * 调用 `produce` 时在该键下传入上游的 `traceparent`，生产 span 就会成为它的子 span。
+     * @default 'traceparent'
+     */
+    propagationKey?: string;
+}
+
+/**
+ * W3C `traceparent` 的格式：版本-trace 编号-span 编号-标志位
+ */
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * 将追踪上下文格式化为 W3C `traceparent` 字符串。
+ * @param {SpanContext} context - 追踪上下文。
+ * @returns {string} `traceparent` 字符串，例如 `00-<traceId>-<spanId>-01`。
+ */
+export function formatTraceparent(context: SpanContext): string {
+    const flags = (context.traceFlags ?? 1).toString(16).padStart(2, '0');
+    return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * 解析 W3C `traceparent` 字符串。
+ * @param {unknown} value - 待解析的值。
+ * @returns {SpanContext | undefined} 解析出的追踪上下文；格式不正确时返回 `undefined`。
+ */
+export function parseTraceparent(value: unknown): SpanContext | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const match = TRACEPARENT_PATTERN.exec(value.trim().toLowerCase());
+    if (!match || match[1] === 'ff') {
+        return undefined;
+    }
+    return { traceId: match[2], spanId: match[3], traceFlags: parseInt(match[4], 16) };
+}
+
+/**
+ * 为生产和消费创建 span 的生命周期钩子。
+ * 生产 span 的 `traceparent` 写入数据项的上下文，随数据项经过缓冲区（和持久化存储），
+ * 每次消费尝试都会创建一个以生产 span 为父的消费 span，从而把消费与产生它的请求关联起来。
+ *
+ * @example
+ * ```typescript
+ * const tracing = new TracingHooks(tracer);
+ * const queue = new ProdConsPQueue<Job>({ hooks: [tracing] });
+ * await queue.produce(fetchJob, { context: { traceparent: req.headers.traceparent } });
+ * queue.consume(async (job, signal, context) => {
+ *   const span = tracing.getSpan(context); // 当前消费尝试的 span
+ * });
+ * ```
+ * @template TItem - 数据项类型
+ * @template TResult - 消费结果类型
+ */
+export class TracingHooks<TItem = any, TResult = unknown> implements ProdConsHooks<TItem, TResult> {
+    /**
+     * @private
+     * 用于创建 span 的追踪器
+     */
+    private readonly tracer: Tracer;
+    /**
+     * @private
+     * span 名称的前缀
+     */
+    private readonly name: string;
+    /**
+     * @private
+     * 在上下文中保存 `traceparent` 的键
+     */
+    private readonly propagationKey: string;
+    /**
+     * @private
+     * 每个数据项当前进行中的 span
+     */
+    private readonly spans: WeakMap<ItemContext<TItem>, Span> = new WeakMap();
+
+    /**
+     * @param {Tracer} tracer - 用于创建 span 的追踪器。
+     * @param {TracingHooksOptions} [options={}] - span 名称和传播键。
+     */
+    constructor(tracer: Tracer, options: TracingHooksOptions = {}) {
+        const { name = 'prod-cons-pqueue', propagationKey = 'traceparent' } = options;
+        this.tracer = tracer;
+        this.name = name;
+        this.propagationKey = propagationKey;
+    }
+
+    /**
+     * 获取数据项当前进行中的 span，可用于在消费函数中创建子 span。
+     * @param {ItemContext<TItem>} context - 数据项的上下文。
+     * @returns {Span | undefined} 进行中的 span，没有时返回 `undefined`。
+     */
+    getSpan(context: ItemContext<TItem>): Span | undefined {
+        return this.spans.get(context);
+    }
+
+    beforeProduce(context: ItemContext<TItem>): void {
+        const span = this.tracer.startSpan(`${this.name} produce`, {
+            kind: 'producer',
+            parent: parseTraceparent(context.values[this.propagationKey]),
+            attributes: { 'messaging.message.id': context.id }
+        });
+        this.spans.set(context, span);
+        context.values[this.propagationKey] = formatTraceparent(span.spanContext());
+    }
+
+    afterProduce(context: ItemContext<TItem>): void {
+        this.endSpan(context);
+    }
+
+    beforeConsume(context: ItemContext<TItem>): void {
+        const span = this.tracer.startSpan(`${this.name} consume`, {
+            kind: 'consumer',
+            parent: parseTraceparent(context.values[this.propagationKey]),
+            attributes: { 'messaging.message.id': context.id, 'messaging.attempt': context.attempt }
+        });
+        this.spans.set(context, span);
+    }
+
+    afterConsume(context: ItemContext<TItem>): void {
+        this.endSpan(context);
+    }
+
+    onError(context: ItemContext<TItem>, error: unknown): void {
+        this.endSpan(context, error);
+    }
+
+    /**
+     * @private
+     * 设置状态并结束数据项当前进行中的 span。
+     * @param {ItemContext<TItem>} context - 数据项的上下文。
+     * @param {unknown} [error] - 失败原因，没有时视为成功。
+     */
+    private endSpan(context: ItemContext<TItem>, error?: unknown): void {
+        const span = this.spans.get(context);
+        if (!span) {
+            return;
+        }
+        this.spans.delete(context);
+
+        if (error === undefined) {
+            span.setStatus({ code: 'ok' });
+        } else {
+            span.recordException(error);
+            span.setStatus({ code: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+        span.end();
+    }
+}
+
+/**
+ * InMemorySpanRecorder 记录下的 span。
+ */
+export interface RecordedSpan {
+    name: string;
+    kind: SpanOptions['kind'];
+    traceId: string;
+    spanId: string;
+    /** 父 span 的编号，根 span 没有 */
+    parentSpanId?: string;
+    attributes: Record<string, SpanAttributeValue>;
+    status: { code: 'unset' | 'ok' | 'error'; message?: string };
+    exceptions: unknown[];
+    /** 开始时间戳（毫秒） */
+    startTime: number;
+    /** 结束时间戳（毫秒），进行中的 span 没有 */
+    endTime?: number;
+}
+
+/**
+ * @private
+ * 生成指定字节数的随机十六进制字符串。
+ */
+function randomHex(bytes: number): string {
+    let hex = '';
+    for (let i = 0; i < bytes; i++) {
+        hex += Math.floor(Math.random() * 256).toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+/**
+ * 把 span 记录在内存中的追踪器，用于测试和调试。
+ *
+ * @example
+ * ```typescript
+ * const recorder = new InMemorySpanRecorder();
+ * const queue = new ProdConsPQueue({ hooks: [new TracingHooks(recorder)] });
+ * // ...
+ * const [produce, consume] = recorder.getFinishedSpans();
+ * expect(consume.parentSpanId).toBe(produce.spanId);
+ * ```
+ */
+export class InMemorySpanRecorder implements Tracer {
+    /**
+     * @private
+     * 按开始顺序排列的所有 span
+     */
+    private spans: RecordedSpan[] = [];
+
+    startSpan(name: string, options: SpanOptions): Span {
+        const record: RecordedSpan = {
+            name,
+            kind: options.kind,
+            traceId: options.parent?.traceId ?? randomHex(16),
+            spanId: randomHex(8),
+            parentSpanId: options.parent?.spanId,
+            attributes: { ...options.attributes },
+            status: { code: 'unset' },
+            exceptions: [],
+            startTime: Date.now()
+        };
+        this.spans.push(record);
+
+        return {
+            spanContext: () => ({ traceId: record.traceId, spanId: record.spanId, traceFlags: 1 }),
+            setAttribute: (key, value) => {
+                record.attributes[key] = value;
+            },
+            setStatus: status => {
+                record.status = status;
+            },
+            recordException: error => {
+                record.exceptions.push(error);
+            },
+            end: () => {
+                record.endTime ??= Date.now();
+            }
+        };
+    }
+
+    /**
+     * 获取所有已经开始的 span，按开始顺序排列。
+     * @returns {RecordedSpan[]} span 列表。
+     */
+    getSpans(): RecordedSpan[] {
+        return this.spans.slice();
+    }
+
+    /**
+     * 获取已经结束的 span，按开始顺序排列。
+     * @returns {RecordedSpan[]} span 列表。
+     */
+    getFinishedSpans(): RecordedSpan[] {
+        return this.spans.filter(span => span.endTime !== undefined);
+    }
+
+    /**
+     * 清空记录。
+     */
+    reset(): void {
+        this.spans = [];
+    }
+}
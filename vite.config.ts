@@ -4,12 +4,17 @@ import { resolve } from 'path';
 export default defineConfig({
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        streams: resolve(__dirname, 'src/streams.ts'),
+        'file-buffer-store': resolve(__dirname, 'src/file-buffer-store.ts')
+      },
       name: 'ProdConsPQueue',
-      fileName: 'index'
+      formats: ['es'],
+      fileName: (_format, entryName) => `${entryName}.js`
     },
     rollupOptions: {
-      external: [],
+      external: ['node:stream', 'node:stream/web', 'node:fs', 'node:path'],
       output: {
         format: 'es'
       }